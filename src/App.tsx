@@ -13,6 +13,8 @@ import EmailConfirmed from "./pages/EmailConfirmed";
 import Dashboard from "./pages/Dashboard";
 import Feed from "./pages/Feed";
 import PostForm from "./pages/PostForm";
+import FormDetail from "./pages/FormDetail";
+import FillComplete from "./pages/FillComplete";
 import Leaderboard from "./pages/Leaderboard";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
@@ -35,6 +37,8 @@ const App = () => (
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/feed" element={<Feed />} />
               <Route path="/post-form" element={<PostForm />} />
+              <Route path="/forms/:id" element={<FormDetail />} />
+              <Route path="/fill-complete" element={<FillComplete />} />
               <Route path="/leaderboard" element={<Leaderboard />} />
               <Route path="/profile" element={<Profile />} />
             </Route>
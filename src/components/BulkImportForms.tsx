@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Download, Upload, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTagRegistry } from '@/hooks/use-tag-registry';
+import FormProviderIcon from './FormProviderIcon';
+import { IMPORT_COLUMNS, IMPORT_TEMPLATE_CSV, parseImportFile } from '@/lib/form-import';
+import { toFormInsert, validateFormFields, ValidatedForm } from '@/lib/form-validation';
+
+interface PreviewRow {
+  line: number;
+  title: string;
+  tags: string[];
+  form?: ValidatedForm;
+  errors: string[];
+}
+
+interface ImportSummary {
+  imported: number;
+  failed: { line: number; title: string; reason: string }[];
+}
+
+const BulkImportForms = () => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const { session } = useAuth();
+  const { normalize } = useTagRegistry();
+  const navigate = useNavigate();
+
+  const validRows = rows.filter(row => row.form);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setSummary(null);
+
+    const { rows: imported, error } = parseImportFile(file.name, await file.text());
+    if (error) {
+      setFileError(error);
+      setRows([]);
+      return;
+    }
+
+    setFileError(null);
+    const seen = new Map<string, number>();
+    setRows(imported.map(({ line, fields, tags }) => {
+      const { form, errors } = validateFormFields(fields);
+
+      // The same survey twice in one file is almost always a copy-paste slip
+      const surveyKey = form ? form.urlAnalysis.formId || form.urlAnalysis.canonicalUrl : null;
+      if (surveyKey && seen.has(surveyKey)) {
+        errors.push(`Same form as row ${seen.get(surveyKey)}`);
+      } else if (surveyKey) {
+        seen.set(surveyKey, line);
+      }
+
+      return {
+        line,
+        title: fields.title.trim() || '(untitled)',
+        tags: [...new Set(tags.map(normalize))],
+        form: errors.length === 0 ? form : undefined,
+        errors
+      };
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!session?.user) {
+      toast.error('You must be logged in to import forms');
+      return;
+    }
+
+    const invalid = rows
+      .filter(row => !row.form)
+      .map(row => ({ line: row.line, title: row.title, reason: row.errors.join('; ') }));
+
+    setIsImporting(true);
+    try {
+      const { error } = await supabase
+        .from('forms')
+        .insert(validRows.map(row => toFormInsert(session.user.id, row.form, row.tags)));
+
+      if (error) throw error;
+
+      setSummary({ imported: validRows.length, failed: invalid });
+      setRows([]);
+      toast.success(`Imported ${validRows.length} form${validRows.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('Error importing forms:', error);
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      setSummary({
+        imported: 0,
+        failed: [...invalid, ...validRows.map(row => ({ line: row.line, title: row.title, reason }))]
+          .sort((a, b) => a.line - b.line)
+      });
+      toast.error(`Failed to import forms: ${reason}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="importFile">CSV or JSON File</Label>
+        <Input
+          id="importFile"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFile}
+          className="border-slate-200"
+        />
+        <p className="text-sm text-slate-500">
+          Columns: {IMPORT_COLUMNS.join(', ')}. Separate tags with semicolons. Every row is checked with the same rules as posting a single form.
+        </p>
+        <Button asChild variant="link" className="px-0 text-emerald-700">
+          <a href={`data:text/csv;charset=utf-8,${encodeURIComponent(IMPORT_TEMPLATE_CSV)}`} download="survease-import.csv">
+            <Download className="w-4 h-4 mr-1" />
+            Download a template
+          </a>
+        </Button>
+      </div>
+
+      {fileError && (
+        <Alert variant="destructive">
+          <AlertDescription>{fileError}</AlertDescription>
+        </Alert>
+      )}
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm text-slate-600">
+            <span>{fileName}</span>
+            <span>
+              {validRows.length} ready · {rows.length - validRows.length} with errors
+            </span>
+          </div>
+          <div className="max-h-96 overflow-y-auto rounded-md border border-slate-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  <TableHead>Form</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-slate-500">{row.line}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {row.form && <FormProviderIcon provider={row.form.urlAnalysis.provider} />}
+                        <span className="font-medium">{row.title}</span>
+                      </div>
+                      {row.form && (
+                        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-slate-500">
+                          <span>Expires {format(new Date(row.form.expireAt), 'PP')}</span>
+                          {row.tags.map(tag => (
+                            <Badge key={tag} variant="secondary" className="bg-emerald-100 text-emerald-800">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.form ? (
+                        <span className="flex items-center gap-1 text-sm text-emerald-700">
+                          <CheckCircle className="w-4 h-4" />
+                          Ready
+                        </span>
+                      ) : (
+                        <ul className="space-y-1 text-sm text-red-600">
+                          {row.errors.map(error => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || validRows.length === 0}
+            className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting
+              ? 'Importing...'
+              : `Import ${validRows.length} Valid Form${validRows.length !== 1 ? 's' : ''}`}
+          </Button>
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-3 rounded-md border border-slate-200 p-4">
+          <p className="flex items-center gap-2 font-medium text-emerald-700">
+            <CheckCircle className="w-4 h-4" />
+            {summary.imported} form{summary.imported !== 1 ? 's' : ''} imported
+          </p>
+          {summary.failed.length > 0 && (
+            <div className="space-y-1">
+              <p className="flex items-center gap-2 font-medium text-red-600">
+                <XCircle className="w-4 h-4" />
+                {summary.failed.length} row{summary.failed.length !== 1 ? 's' : ''} not imported
+              </p>
+              <ul className="space-y-1 text-sm text-slate-600">
+                {summary.failed.map(failure => (
+                  <li key={failure.line}>
+                    Row {failure.line} ({failure.title}): {failure.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {summary.imported > 0 && (
+            <Button variant="outline" onClick={() => navigate('/feed')} className="border-slate-200">
+              View in Feed
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkImportForms;
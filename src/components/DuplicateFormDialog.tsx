@@ -0,0 +1,116 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Calendar, RefreshCw } from 'lucide-react';
+
+export interface ExistingForm {
+  id: string;
+  title: string;
+  user_id: string;
+  created_at: string;
+  expire_at: string | null;
+  external_form_id: string | null;
+  // The same form (by ID or link) rather than just a similar title
+  same_survey: boolean;
+}
+
+interface DuplicateFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  duplicates: ExistingForm[];
+  currentUserId: string;
+  isSubmitting: boolean;
+  onRenew: (form: ExistingForm) => void;
+  onPostAnyway: () => void;
+}
+
+const DuplicateFormDialog: React.FC<DuplicateFormDialogProps> = ({
+  isOpen,
+  onClose,
+  duplicates,
+  currentUserId,
+  isSubmitting,
+  onRenew,
+  onPostAnyway
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            This survey is already live
+          </DialogTitle>
+          <DialogDescription>
+            Posting it again splits responses and ratings across copies. Renew your existing post instead to keep everything in one place.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {duplicates.map((form) => {
+            const isOwn = form.user_id === currentUserId;
+
+            return (
+              <div key={form.id} className="p-3 bg-gray-50 rounded-lg border border-slate-200">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="flex-1">
+                    <h4 className="font-medium text-sm">{form.title}</h4>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                      <Calendar className="w-3 h-3" />
+                      <span>Posted {new Date(form.created_at).toLocaleDateString()}</span>
+                      {form.expire_at && (
+                        <span>· Expires {new Date(form.expire_at).toLocaleDateString()}</span>
+                      )}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <Badge variant="secondary" className={isOwn ? 'bg-emerald-100 text-emerald-800' : ''}>
+                        {isOwn ? 'Your post' : 'Posted by another member'}
+                      </Badge>
+                      <Badge variant="outline">
+                        {form.same_survey ? 'Same form link' : 'Similar title'}
+                      </Badge>
+                    </div>
+                  </div>
+                  {isOwn && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isSubmitting}
+                      onClick={() => onRenew(form)}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Renew
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            className="flex-1"
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={onPostAnyway}
+            className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? 'Posting...' : 'Post Anyway'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateFormDialog;
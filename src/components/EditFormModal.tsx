@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import TagInput from './TagInput';
+import { COMPLETION_CODE_MAX_LENGTH, validateCompletionCode } from '@/lib/fill-verification';
+import ReturnLinkSetting from './ReturnLinkSetting';
+import { generateReturnKey } from '@/lib/fill-return-links';
+import { toast } from 'sonner';
+
+interface EditFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  form: {
+    id: string;
+    title: string;
+    description: string;
+    tags: string[];
+    expire_at: string | null;
+    return_link_enabled: boolean;
+  };
+}
+
+const EditFormModal: React.FC<EditFormModalProps> = ({ isOpen, onClose, onSaved, form }) => {
+  const { session } = useAuth();
+  const [title, setTitle] = useState(form.title);
+  const [description, setDescription] = useState(form.description || '');
+  const [tags, setTags] = useState<string[]>(form.tags || []);
+  const [expiryDate, setExpiryDate] = useState<Date | undefined>(
+    form.expire_at ? new Date(form.expire_at) : undefined
+  );
+  const [completionCode, setCompletionCode] = useState('');
+  const [savedCompletionCode, setSavedCompletionCode] = useState('');
+  const [returnLinkEnabled, setReturnLinkEnabled] = useState(form.return_link_enabled);
+  const [returnKey, setReturnKey] = useState('');
+  const [savedReturnKey, setSavedReturnKey] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(form.title);
+      setDescription(form.description || '');
+      setTags(form.tags || []);
+      setExpiryDate(form.expire_at ? new Date(form.expire_at) : undefined);
+      setReturnLinkEnabled(form.return_link_enabled);
+      fetchCompletionCode();
+      fetchReturnKey();
+    }
+  }, [isOpen, form]);
+
+  const fetchCompletionCode = async () => {
+    const { data, error } = await supabase
+      .from('form_completion_codes')
+      .select('code')
+      .eq('form_id', form.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching completion code:', error);
+    }
+    setCompletionCode(data?.code || '');
+    setSavedCompletionCode(data?.code || '');
+  };
+
+  const saveCompletionCode = async () => {
+    const code = completionCode.trim();
+    if (code === savedCompletionCode) return;
+
+    const { error } = code
+      ? await supabase
+          .from('form_completion_codes')
+          .upsert({ form_id: form.id, code, updated_at: new Date().toISOString() })
+      : await supabase
+          .from('form_completion_codes')
+          .delete()
+          .eq('form_id', form.id);
+
+    if (error) throw error;
+  };
+
+  // Forms that never had a return link get a fresh key, saved once the link is turned on
+  const fetchReturnKey = async () => {
+    const { data, error } = await supabase
+      .from('form_return_keys')
+      .select('key')
+      .eq('form_id', form.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching return key:', error);
+    }
+    setReturnKey(data?.key || generateReturnKey());
+    setSavedReturnKey(data?.key || '');
+  };
+
+  // The key is kept when the link is turned off so the survey's redirect works again if it's turned back on
+  const saveReturnKey = async () => {
+    if (!returnLinkEnabled || returnKey === savedReturnKey) return;
+
+    const { error } = await supabase
+      .from('form_return_keys')
+      .insert({ form_id: form.id, key: returnKey });
+
+    if (error) throw error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim() || !description.trim() || !expiryDate) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    const codeError = validateCompletionCode(completionCode);
+    if (codeError) {
+      toast.error(codeError);
+      return;
+    }
+
+    if (!session?.user) {
+      toast.error('You must be logged in to edit a form');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('forms')
+        .update({
+          title: title.trim(),
+          description: description.trim(),
+          tags,
+          expire_at: expiryDate.toISOString(),
+          return_link_enabled: returnLinkEnabled,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', form.id)
+        .eq('user_id', session.user.id);
+
+      if (error) throw error;
+
+      await saveCompletionCode();
+      await saveReturnKey();
+
+      toast.success('Form updated successfully!');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error updating form:', error);
+      toast.error(`Failed to update form: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Form</DialogTitle>
+          <DialogDescription>
+            Update how your form appears in the feed
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-title">Form Title *</Label>
+            <Input
+              id="edit-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description *</Label>
+            <Textarea
+              id="edit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagInput tags={tags} onChange={setTags} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Expiry Date *</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full justify-start text-left font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {expiryDate ? format(expiryDate, "PPP") : "Pick an expiry date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={expiryDate}
+                  onSelect={setExpiryDate}
+                  disabled={(date) => date < new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-completion-code">Completion Code</Label>
+            <Input
+              id="edit-completion-code"
+              value={completionCode}
+              onChange={(e) => setCompletionCode(e.target.value)}
+              maxLength={COMPLETION_CODE_MAX_LENGTH}
+              placeholder="Shown on your survey's confirmation page"
+            />
+            <p className="text-xs text-slate-500">
+              Fills only count once the filler enters this code. Changing it doesn't affect fills already verified.
+            </p>
+          </div>
+
+          <ReturnLinkSetting
+            id="edit-return-link"
+            enabled={returnLinkEnabled}
+            onChange={setReturnLinkEnabled}
+            returnKey={returnKey}
+          />
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1"
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditFormModal;
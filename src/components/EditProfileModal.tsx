@@ -4,9 +4,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { OCCUPATION_OPTIONS } from '@/lib/eligibility';
 
 interface EditProfileModalProps {
   isOpen: boolean;
@@ -16,6 +18,9 @@ interface EditProfileModalProps {
 const EditProfileModal: React.FC<EditProfileModalProps> = ({ isOpen, onClose }) => {
   const { user, refreshUser } = useAuth();
   const [name, setName] = useState(user?.name || '');
+  const [occupation, setOccupation] = useState(user?.occupation || '');
+  const [country, setCountry] = useState(user?.country || '');
+  const [birthYear, setBirthYear] = useState(user?.birthYear ? String(user.birthYear) : '');
   const [isLoading, setIsLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -26,6 +31,13 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ isOpen, onClose })
       return;
     }
 
+    const parsedBirthYear = birthYear.trim() ? Number(birthYear) : null;
+    const currentYear = new Date().getFullYear();
+    if (parsedBirthYear !== null && (!Number.isInteger(parsedBirthYear) || parsedBirthYear < 1900 || parsedBirthYear > currentYear)) {
+      toast.error('Please enter a valid birth year');
+      return;
+    }
+
     setIsLoading(true);
     try {
       console.log('Updating profile for user:', user.id, 'with name:', name);
@@ -40,6 +52,21 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ isOpen, onClose })
         throw error;
       }
 
+      const { error: attributesError } = await supabase
+        .from('participant_attributes')
+        .upsert({
+          user_id: user.id,
+          occupation: occupation || null,
+          country: country.trim() || null,
+          birth_year: parsedBirthYear,
+          updated_at: new Date().toISOString()
+        });
+
+      if (attributesError) {
+        console.error('Error updating participant attributes:', attributesError);
+        throw attributesError;
+      }
+
       console.log('Profile updated successfully');
       toast.success('Profile updated successfully!');
       
@@ -87,6 +114,47 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ isOpen, onClose })
             <p className="text-xs text-gray-500">Email cannot be changed</p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Occupation</Label>
+            <Select value={occupation} onValueChange={setOccupation}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select your occupation" />
+              </SelectTrigger>
+              <SelectContent>
+                {OCCUPATION_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="country">Country</Label>
+              <Input
+                id="country"
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                placeholder="e.g. Canada"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="birthYear">Birth Year</Label>
+              <Input
+                id="birthYear"
+                type="number"
+                value={birthYear}
+                onChange={(e) => setBirthYear(e.target.value)}
+                placeholder="e.g. 1998"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Only you can see these. They're used only to show which forms you're eligible for.
+          </p>
+
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Handshake, Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import FormFillModal from './FormFillModal';
+import FormProviderIcon from './FormProviderIcon';
+import { formatDuration } from '@/lib/form-duration';
+import { formDetailPath } from '@/lib/form-links';
+
+type FillBackForm = Database['public']['Functions']['fill_back_forms']['Returns'][number];
+
+const FillBackList = () => {
+  const [forms, setForms] = useState<FillBackForm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fillingForm, setFillingForm] = useState<FillBackForm | null>(null);
+  const { session } = useAuth();
+
+  const fetchFillBackForms = async () => {
+    if (!session?.user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('fill_back_forms');
+      if (error) throw error;
+      setForms(data || []);
+    } catch (error) {
+      console.error('Error fetching fill-back forms:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFillBackForms();
+  }, [session]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  if (forms.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Handshake className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">You're all caught up. Everyone who filled your forms has been filled back.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {forms.map(form => (
+          <div key={form.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border border-slate-200">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <FormProviderIcon provider={form.provider} />
+                <Link to={formDetailPath(form.id)} className="font-semibold truncate hover:text-emerald-700 hover:underline">
+                  {form.title}
+                </Link>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-slate-500">
+                <span>
+                  {form.author_name} filled {form.fills_for_me} of your forms, last{' '}
+                  {formatDistanceToNow(new Date(form.last_filled_for_me_at), { addSuffix: true })}
+                </span>
+                {(form.estimated_minutes || form.question_count) && (
+                  <span className="flex items-center gap-1">
+                    · <Clock className="w-3 h-3" /> {formatDuration(form.estimated_minutes, form.question_count)}
+                  </span>
+                )}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => setFillingForm(form)}
+              className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+            >
+              Fill Back
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {fillingForm && (
+        <FormFillModal
+          isOpen={!!fillingForm}
+          onClose={() => setFillingForm(null)}
+          formId={fillingForm.id}
+          formTitle={fillingForm.title}
+          formUrl={fillingForm.form_url}
+          eligibility={fillingForm}
+          onFormFilled={fetchFillBackForms}
+        />
+      )}
+    </>
+  );
+};
+
+export default FillBackList;
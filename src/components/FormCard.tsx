@@ -3,19 +3,49 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Calendar, Star, MessageCircle, ExternalLink } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Link } from 'react-router-dom';
+import { Calendar, Star, MessageCircle, ExternalLink, Target, Users, Clock, CheckCircle, Bookmark, Handshake } from 'lucide-react';
 import FormFillModal from './FormFillModal';
+import FormProviderIcon from './FormProviderIcon';
+import HighlightedText from './HighlightedText';
+import { useOpenSurvey } from '@/hooks/use-open-survey';
+import { FORM_STATUS_LABELS, FormStatus, getFormStatus } from '@/lib/form-status';
+import { remainingResponses, targetProgress } from '@/lib/form-goals';
+import { describeEligibility, EligibilityCriteria, hasEligibilityCriteria } from '@/lib/eligibility';
+import { formatDuration } from '@/lib/form-duration';
+import { FormProvider } from '@/lib/form-providers';
+import { formDetailPath } from '@/lib/form-links';
+import { describeReciprocity, hasReciprocityScore, Reciprocity } from '@/lib/reciprocity';
 
 interface FormCardProps {
   id: string;
   title: string;
   description: string;
+  // Title and description with search matches marked by feed_page
+  titleHighlight?: string;
+  descriptionHighlight?: string | null;
   tags: string[];
   createdAt: string;
   expireAt: string | null;
-  googleFormUrl: string;
+  closedAt?: string | null;
+  status?: FormStatus;
+  formUrl: string;
+  provider?: FormProvider;
+  authorName?: string;
+  authorReciprocity?: Reciprocity | null;
   fillCount: number;
+  targetResponses?: number | null;
+  eligibility?: EligibilityCriteria;
+  estimatedMinutes?: number | null;
+  questionCount?: number | null;
   averageRating: number;
+  // The current user's fill, if they already filled this form
+  myFill?: { id: string; rating: number | null; filledAt: string } | null;
+  // Posters can't fill or rate their own forms
+  isOwnForm?: boolean;
+  isSaved?: boolean;
+  onToggleSaved?: () => void;
   onFormFilled?: () => void;
 }
 
@@ -23,17 +53,36 @@ const FormCard: React.FC<FormCardProps> = ({
   id,
   title,
   description,
+  titleHighlight,
+  descriptionHighlight,
   tags,
   createdAt,
   expireAt,
-  googleFormUrl,
+  closedAt,
+  status,
+  formUrl,
+  provider = 'google',
+  authorName,
+  authorReciprocity = null,
   fillCount,
+  targetResponses = null,
+  eligibility,
+  estimatedMinutes = null,
+  questionCount = null,
   averageRating,
+  myFill = null,
+  isOwnForm = false,
+  isSaved = false,
+  onToggleSaved,
   onFormFilled
 }) => {
   const [showFillModal, setShowFillModal] = useState(false);
+  const openSurvey = useOpenSurvey();
 
-  const isExpired = expireAt ? new Date(expireAt) < new Date() : false;
+  const formStatus = getFormStatus({ expire_at: expireAt, closed_at: closedAt, status });
+  const isExpired = formStatus === 'expired';
+  const isInactive = formStatus !== 'live';
+  const progress = targetProgress(fillCount, targetResponses);
 
   const handleFillForm = () => {
     setShowFillModal(true);
@@ -47,22 +96,54 @@ const FormCard: React.FC<FormCardProps> = ({
 
   return (
     <>
-      <Card className={`border-slate-200 hover:shadow-md transition-shadow ${isExpired ? 'opacity-75' : ''}`}>
+      <Card className={`border-slate-200 hover:shadow-md transition-shadow ${isInactive ? 'opacity-75' : ''}`}>
         <CardHeader>
           <div className="flex justify-between items-start">
             <div className="flex-1">
-              <CardTitle className="text-lg">{title}</CardTitle>
-              <CardDescription className="mt-2">{description}</CardDescription>
+              <div className="flex items-center gap-2">
+                <FormProviderIcon provider={provider} />
+                <CardTitle className="text-lg">
+                  <Link to={formDetailPath(id)} className="hover:text-emerald-700 hover:underline">
+                    <HighlightedText text={titleHighlight || title} />
+                  </Link>
+                </CardTitle>
+              </div>
+              <CardDescription className="mt-2">
+                <HighlightedText text={descriptionHighlight || description} />
+              </CardDescription>
             </div>
-            {isExpired && (
-              <Badge variant="destructive" className="ml-2">
-                Expired
+            {isInactive && (
+              <Badge variant={isExpired ? 'destructive' : 'secondary'} className="ml-2">
+                {FORM_STATUS_LABELS[formStatus]}
               </Badge>
             )}
+            {onToggleSaved && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onToggleSaved}
+                title={isSaved ? 'Remove from saved forms' : 'Save to fill later'}
+                className="ml-1 -mt-2 -mr-2 h-8 w-8"
+              >
+                <Bookmark className={`w-4 h-4 ${isSaved ? 'fill-emerald-600 text-emerald-600' : 'text-slate-400'}`} />
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {myFill && (
+              <div className="flex items-center gap-2 text-sm text-emerald-700">
+                <CheckCircle className="w-4 h-4" />
+                <span>Filled on {new Date(myFill.filledAt).toLocaleDateString()}</span>
+                {myFill.rating && (
+                  <span className="flex items-center gap-1 text-slate-600">
+                    · <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" /> {myFill.rating}
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Tags */}
             {tags && tags.length > 0 && (
               <div className="flex flex-wrap gap-2">
@@ -74,12 +155,26 @@ const FormCard: React.FC<FormCardProps> = ({
               </div>
             )}
 
+            {/* Audience */}
+            {eligibility && hasEligibilityCriteria(eligibility) && (
+              <div className="flex items-center gap-1 text-sm text-slate-600">
+                <Users className="w-4 h-4" />
+                <span>{describeEligibility(eligibility)}</span>
+              </div>
+            )}
+
             {/* Stats */}
             <div className="flex items-center gap-6 text-sm text-gray-600">
               <div className="flex items-center gap-1">
                 <MessageCircle className="w-4 h-4" />
                 <span>{fillCount} responses</span>
               </div>
+              {(estimatedMinutes || questionCount) && (
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  <span>{formatDuration(estimatedMinutes, questionCount)}</span>
+                </div>
+              )}
               {averageRating > 0 && (
                 <div className="flex items-center gap-1">
                   <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
@@ -88,12 +183,37 @@ const FormCard: React.FC<FormCardProps> = ({
               )}
             </div>
 
+            {/* Target Progress */}
+            {progress !== null && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <div className="flex items-center gap-1">
+                    <Target className="w-3 h-3" />
+                    <span>{fillCount} / {targetResponses} responses</span>
+                  </div>
+                  <span>
+                    {progress >= 100 ? 'Goal reached' : `${remainingResponses(fillCount, targetResponses)} to go`}
+                  </span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            )}
+
             {/* Dates */}
             <div className="flex items-center gap-4 text-sm text-gray-500">
               <div className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
-                <span>Posted {new Date(createdAt).toLocaleDateString()}</span>
+                <span>
+                  Posted {new Date(createdAt).toLocaleDateString()}
+                  {authorName && ` by ${authorName}`}
+                </span>
               </div>
+              {hasReciprocityScore(authorReciprocity) && (
+                <div className="flex items-center gap-1 text-emerald-700" title={describeReciprocity(authorReciprocity)}>
+                  <Handshake className="w-4 h-4" />
+                  <span>{authorReciprocity.score}% fill-back</span>
+                </div>
+              )}
               {expireAt && (
                 <div className="flex items-center gap-1">
                   <Calendar className="w-4 h-4" />
@@ -108,19 +228,25 @@ const FormCard: React.FC<FormCardProps> = ({
             <div className="flex gap-2 pt-2">
               <Button
                 onClick={handleFillForm}
-                disabled={isExpired}
-                className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+                disabled={isOwnForm || (isInactive && !myFill)}
+                variant={myFill || isOwnForm ? 'outline' : 'default'}
+                className={`flex-1 ${myFill || isOwnForm ? 'border-emerald-200' : 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700'}`}
               >
-                Fill & Rate Form
+                {isOwnForm ? 'Your Form' : myFill ? 'Edit Rating' : 'Fill & Rate Form'}
               </Button>
               <Button
                 variant="outline"
-                onClick={() => window.open(googleFormUrl, '_blank')}
+                onClick={() => openSurvey(id, formUrl)}
                 className="px-3"
               >
                 <ExternalLink className="w-4 h-4" />
               </Button>
             </div>
+            {isOwnForm && (
+              <p className="text-xs text-slate-500">
+                You can't fill or rate your own form. Share it to collect responses.
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -130,7 +256,9 @@ const FormCard: React.FC<FormCardProps> = ({
         onClose={() => setShowFillModal(false)}
         formId={id}
         formTitle={title}
-        formUrl={googleFormUrl}
+        formUrl={formUrl}
+        eligibility={eligibility}
+        existingFillId={myFill?.id}
         onFormFilled={handleFormFilled}
       />
     </>
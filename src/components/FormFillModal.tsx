@@ -1,14 +1,23 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Star, ExternalLink } from 'lucide-react';
+import { Star, ExternalLink, AlertTriangle, CheckCircle, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { checkEligibility, EligibilityCriteria } from '@/lib/eligibility';
+import { COMPLETION_CODE_MAX_LENGTH } from '@/lib/fill-verification';
+import { useOpenSurvey } from '@/hooks/use-open-survey';
+
+// Postgres error codes: unique_violation on (form_id, user_id), and the
+// check_violation raised for fills submitted without opening the form first
+// or faster than the form allows
+const DUPLICATE_FILL_ERROR_CODE = '23505';
+const UNTIMED_FILL_ERROR_CODE = '23514';
 
 interface FormFillModalProps {
   isOpen: boolean;
@@ -16,22 +25,129 @@ interface FormFillModalProps {
   formId: string;
   formTitle: string;
   formUrl: string;
+  eligibility?: EligibilityCriteria;
+  // The user's fill on this form or a repost of it, when the caller already knows it
+  existingFillId?: string | null;
   onFormFilled: () => void;
 }
 
+interface ExistingFill {
+  id: string;
+  rating: number | null;
+  comment: string | null;
+  created_at: string;
+  verified: boolean;
+  // How the form this fill belongs to verifies fills
+  form: { has_completion_code: boolean; return_link_enabled: boolean } | null;
+}
+
 const FormFillModal: React.FC<FormFillModalProps> = ({ 
   isOpen, 
   onClose, 
   formId, 
   formTitle, 
   formUrl,
+  eligibility,
+  existingFillId,
   onFormFilled 
 }) => {
   const { user } = useAuth();
+  const openSurvey = useOpenSurvey();
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
   const [hoveredRating, setHoveredRating] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ineligibleReasons, setIneligibleReasons] = useState<string[]>([]);
+  const [existingFill, setExistingFill] = useState<ExistingFill | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [hasCompletionCode, setHasCompletionCode] = useState(false);
+  const [completionCode, setCompletionCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [returnLinkEnabled, setReturnLinkEnabled] = useState(false);
+  const [posterId, setPosterId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchFormSettings = async () => {
+      const { data, error } = await supabase
+        .from('forms')
+        .select('user_id, has_completion_code, return_link_enabled')
+        .eq('id', formId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking how fills are verified:', error);
+        return;
+      }
+      setPosterId(data?.user_id || null);
+      setHasCompletionCode(!!data?.has_completion_code);
+      setReturnLinkEnabled(!!data?.return_link_enabled);
+    };
+
+    fetchFormSettings();
+  }, [isOpen, formId]);
+
+  const fetchExistingFill = async () => {
+    let query = supabase
+      .from('form_fills')
+      .select('id, rating, comment, created_at, verified, form:forms(has_completion_code, return_link_enabled)')
+      .eq('user_id', user.id);
+    query = existingFillId ? query.eq('id', existingFillId) : query.eq('form_id', formId);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('Error checking for an existing fill:', error);
+      return null;
+    }
+    setExistingFill(data);
+    // Fills recorded by a return link arrive without a rating; go straight to rating them
+    setIsEditing(!!data && data.rating === null);
+    return data;
+  };
+
+  // One fill per form: look for an earlier one before offering a new fill
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    fetchExistingFill();
+  }, [isOpen, user, formId, existingFillId]);
+
+  const eligibilityCheck = eligibility && user ? checkEligibility(eligibility, user) : null;
+  const isOwnForm = !!user && posterId === user.id;
+
+  // Marks the fill verified when the code matches the one the poster set
+  const verifyFill = async (fillId: string, code: string) => {
+    const { data, error } = await supabase.rpc('verify_form_fill', { p_fill_id: fillId, p_code: code });
+    if (error) throw error;
+    return !!data;
+  };
+
+  const handleVerify = async () => {
+    if (!completionCode.trim()) {
+      toast.error('Please enter the completion code');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const verified = await verifyFill(existingFill.id, completionCode);
+      if (!verified) {
+        toast.error("That code doesn't match. Check the form's confirmation page and try again.");
+        return;
+      }
+
+      toast.success('Fill verified! It now counts toward your points and badges.');
+      setExistingFill({ ...existingFill, verified: true });
+      setCompletionCode('');
+      onFormFilled();
+    } catch (error) {
+      console.error('Error verifying form fill:', error);
+      toast.error(`Failed to verify fill: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
 
   const handleRatingClick = (value: number) => {
     setRating(value);
@@ -47,14 +163,39 @@ const FormFillModal: React.FC<FormFillModalProps> = ({
       return;
     }
 
+    if (isOwnForm) {
+      toast.error("You can't fill or rate your own form");
+      return;
+    }
+
     if (rating === 0) {
       toast.error('Please provide a rating');
       return;
     }
 
+    if (!existingFill && hasCompletionCode && !completionCode.trim()) {
+      toast.error('Please enter the completion code shown at the end of the form');
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
+      if (existingFill) {
+        const { error } = await supabase
+          .from('form_fills')
+          .update({ rating, comment: comment.trim() || null })
+          .eq('id', existingFill.id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+
+        toast.success('Your rating has been updated');
+        onFormFilled();
+        handleClose();
+        return;
+      }
+
       console.log('Submitting form fill:', { formId, userId: user.id, rating, comment });
       
       const { data, error } = await supabase
@@ -65,7 +206,21 @@ const FormFillModal: React.FC<FormFillModalProps> = ({
           rating: rating,
           comment: comment.trim() || null
         })
-        .select();
+        .select('id, rating, comment, created_at, verified')
+        .single();
+
+      if (error?.code === DUPLICATE_FILL_ERROR_CODE) {
+        // Filled already, e.g. in another tab; switch to editing that fill and keep what was entered
+        toast.info("You've already filled this form, so you can update your rating instead");
+        if (await fetchExistingFill()) setIsEditing(true);
+        return;
+      }
+
+      if (error?.code === UNTIMED_FILL_ERROR_CODE) {
+        // Not opened from here, or submitted sooner than the survey can be answered; keep the modal open to retry
+        toast.error(error.message);
+        return;
+      }
 
       if (error) {
         console.error('Error saving form fill:', error);
@@ -73,13 +228,28 @@ const FormFillModal: React.FC<FormFillModalProps> = ({
       }
 
       console.log('Form fill saved successfully:', data);
-      toast.success('Thank you for your feedback!');
-      onFormFilled();
-      onClose();
-      
-      // Reset form
-      setRating(0);
-      setComment('');
+
+      if (hasCompletionCode) {
+        const verified = await verifyFill(data.id, completionCode);
+        onFormFilled();
+
+        if (!verified) {
+          // Keep the fill and let the user retry the code from the summary view
+          toast.error("Your rating was saved, but that completion code doesn't match. Enter the right code to have this fill count.");
+          setExistingFill({ ...data, form: { has_completion_code: true, return_link_enabled: returnLinkEnabled } });
+          setCompletionCode('');
+          setRating(0);
+          setComment('');
+          return;
+        }
+
+        toast.success('Thank you for your feedback! Your fill is verified.');
+      } else {
+        toast.success('Thank you for your feedback!');
+        onFormFilled();
+      }
+
+      handleClose();
     } catch (error: any) {
       console.error('Error submitting form fill:', error);
       toast.error(`Failed to submit feedback: ${error.message}`);
@@ -88,45 +258,31 @@ const FormFillModal: React.FC<FormFillModalProps> = ({
     }
   };
 
-  const openForm = () => {
-    console.log('Opening form URL:', formUrl);
-    
-    if (!formUrl) {
-      toast.error('Form URL is not available');
+  const openForm = async () => {
+    // Warn once before opening a form the user will likely be screened out of
+    if (eligibilityCheck && !eligibilityCheck.eligible && ineligibleReasons.length === 0) {
+      setIneligibleReasons(eligibilityCheck.reasons);
       return;
     }
-    
-    // Ensure the URL has a protocol
-    let urlToOpen = formUrl;
-    if (!formUrl.startsWith('http://') && !formUrl.startsWith('https://')) {
-      urlToOpen = 'https://' + formUrl;
-    }
-    
-    try {
-      // Open in new tab
-      const newWindow = window.open(urlToOpen, '_blank', 'noopener,noreferrer');
-      
-      if (!newWindow) {
-        // If popup was blocked, try alternative method
-        const link = document.createElement('a');
-        link.href = urlToOpen;
-        link.target = '_blank';
-        link.rel = 'noopener noreferrer';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
-      
-      toast.success('Form opened in new tab');
-    } catch (error) {
-      console.error('Error opening form:', error);
-      toast.error('Failed to open form. Please check the URL.');
-    }
+
+    setIneligibleReasons([]);
+    await openSurvey(formId, formUrl);
+  };
+
+  const startEditing = () => {
+    setRating(existingFill.rating || 0);
+    setComment(existingFill.comment || '');
+    setIsEditing(true);
   };
 
   const handleClose = () => {
     setRating(0);
     setComment('');
+    setIneligibleReasons([]);
+    setExistingFill(null);
+    setIsEditing(false);
+    setCompletionCode('');
+    setPosterId(null);
     onClose();
   };
 
@@ -134,90 +290,223 @@ const FormFillModal: React.FC<FormFillModalProps> = ({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-md bg-background">
         <DialogHeader>
-          <DialogTitle>Fill Form & Rate</DialogTitle>
+          <DialogTitle>{existingFill ? (existingFill.rating === null ? 'Rate This Form' : 'Your Rating') : 'Fill Form & Rate'}</DialogTitle>
           <DialogDescription>
-            Fill out the form and provide your rating and feedback
+            {existingFill
+              ? 'You can only fill each form once, but you can change your rating'
+              : 'Fill out the form and provide your rating and feedback'}
           </DialogDescription>
         </DialogHeader>
         
-        <div className="space-y-4">
-          <div className="p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-200 dark:border-blue-800">
-            <h3 className="font-semibold mb-2 text-foreground">{formTitle}</h3>
-            <Button
-              onClick={openForm}
-              className="w-full"
-              variant="outline"
-            >
-              <ExternalLink className="w-4 h-4 mr-2" />
-              Open Form to Fill
+        {isOwnForm ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-slate-50 dark:bg-slate-900/30 rounded-lg border border-slate-200 dark:border-slate-800">
+              <h3 className="font-semibold mb-2 text-foreground">{formTitle}</h3>
+              <p className="text-sm text-muted-foreground">
+                This is your form, so you can't fill or rate it. Share it to collect responses.
+              </p>
+            </div>
+            <Button variant="outline" onClick={handleClose} className="w-full">
+              Close
             </Button>
-            <p className="text-sm text-muted-foreground mt-2">
-              Click above to open and fill the form, then return here to rate it
-            </p>
           </div>
-
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label>Rating *</Label>
-              <div className="flex gap-1">
-                {[1, 2, 3, 4, 5].map((value) => (
-                  <button
-                    key={value}
-                    type="button"
-                    onClick={() => handleRatingClick(value)}
-                    onMouseEnter={() => setHoveredRating(value)}
-                    onMouseLeave={() => setHoveredRating(0)}
-                    className="p-1 rounded hover:bg-accent transition-colors"
-                  >
-                    <Star
-                      className={`w-6 h-6 ${
-                        value <= (hoveredRating || rating)
-                          ? 'fill-yellow-400 text-yellow-400'
-                          : 'text-muted-foreground'
-                      }`}
-                    />
-                  </button>
-                ))}
+        ) : existingFill && !isEditing ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-emerald-50 dark:bg-emerald-950/30 rounded-lg border border-emerald-200 dark:border-emerald-800">
+              <h3 className="font-semibold mb-2 text-foreground">{formTitle}</h3>
+              <div className="flex items-center gap-2 text-sm text-emerald-800 dark:text-emerald-300">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  You filled this form on {new Date(existingFill.created_at).toLocaleDateString()}
+                  {existingFill.rating ? ` and rated it ${existingFill.rating} star${existingFill.rating !== 1 ? 's' : ''}` : ''}
+                </span>
               </div>
-              {rating > 0 && (
-                <p className="text-sm text-muted-foreground">
-                  You rated this form {rating} star{rating !== 1 ? 's' : ''}
-                </p>
+              {existingFill.comment && (
+                <p className="text-sm text-muted-foreground mt-2">"{existingFill.comment}"</p>
               )}
             </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="comment">Comment (Optional)</Label>
-              <Textarea
-                id="comment"
-                value={comment}
-                onChange={(e) => setComment(e.target.value)}
-                placeholder="Share your thoughts about this form..."
-                rows={3}
-                className="bg-background"
-              />
-            </div>
-
-            <div className="flex gap-3 pt-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClose}
-                className="flex-1"
-                disabled={isSubmitting}
-              >
-                Cancel
+            {existingFill.verified ? (
+              <div className="flex items-center gap-2 text-sm text-emerald-700 dark:text-emerald-400">
+                <ShieldCheck className="w-4 h-4" />
+                Verified. This fill counts toward your points and badges.
+              </div>
+            ) : existingFill.form?.has_completion_code ? (
+              <div className="p-4 bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-800 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold text-amber-800 dark:text-amber-300">
+                  <ShieldAlert className="w-4 h-4" />
+                  Not verified yet
+                </div>
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  Enter the completion code from the form's confirmation page to have this fill count.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    value={completionCode}
+                    onChange={(e) => setCompletionCode(e.target.value)}
+                    maxLength={COMPLETION_CODE_MAX_LENGTH}
+                    placeholder="Completion code"
+                    className="bg-background"
+                  />
+                  <Button variant="outline" onClick={handleVerify} disabled={isVerifying || !completionCode.trim()}>
+                    {isVerifying ? 'Verifying...' : 'Verify'}
+                  </Button>
+                </div>
+              </div>
+            ) : existingFill.form?.return_link_enabled ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <ShieldAlert className="w-4 h-4" />
+                Not verified yet. This fill is verified when the survey sends you back here after you submit it.
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <ShieldCheck className="w-4 h-4" />
+                This form doesn't verify fills, so this fill counts toward your points and badges as it is.
+              </div>
+            )}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handleClose} className="flex-1">
+                Close
               </Button>
               <Button
-                type="submit"
+                onClick={startEditing}
                 className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
-                disabled={rating === 0 || isSubmitting}
               >
-                {isSubmitting ? 'Submitting...' : 'Submit Rating'}
+                Edit Rating
               </Button>
             </div>
-          </form>
-        </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!existingFill && (
+              <div className="p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-200 dark:border-blue-800">
+                <h3 className="font-semibold mb-2 text-foreground">{formTitle}</h3>
+                <Button
+                  onClick={openForm}
+                  className="w-full"
+                  variant="outline"
+                >
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  Open Form to Fill
+                </Button>
+                <p className="text-sm text-muted-foreground mt-2">
+                  {returnLinkEnabled
+                    ? "Click above to open and fill the form. When you submit it, you'll be brought back to rate it and your fill is verified automatically"
+                    : 'Click above to open and fill the form, then return here to rate it'}
+                </p>
+                {eligibilityCheck && eligibilityCheck.eligible && eligibilityCheck.unknown.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    This form has audience criteria. Add your {eligibilityCheck.unknown.join(', ')} in your profile to check if you qualify.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {ineligibleReasons.length > 0 && (
+              <div className="p-4 bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-800">
+                <div className="flex items-center gap-2 font-semibold text-amber-800 dark:text-amber-300 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  You may not be eligible for this form
+                </div>
+                <ul className="text-sm text-amber-700 dark:text-amber-400 space-y-1 mb-3">
+                  {ineligibleReasons.map(reason => (
+                    <li key={reason}>• {reason}</li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setIneligibleReasons([])} className="flex-1">
+                    Never Mind
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={openForm} className="flex-1">
+                    Open Anyway
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!existingFill && (hasCompletionCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="completionCode">Completion Code *</Label>
+                  <Input
+                    id="completionCode"
+                    value={completionCode}
+                    onChange={(e) => setCompletionCode(e.target.value)}
+                    maxLength={COMPLETION_CODE_MAX_LENGTH}
+                    placeholder="Shown when you finish the form"
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Only fills with the right code earn points and badges
+                  </p>
+                </div>
+              ) : !returnLinkEnabled && (
+                <p className="text-xs text-muted-foreground">
+                  This form doesn't verify fills, so your fill counts toward points and badges as soon as you submit it
+                </p>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Rating *</Label>
+                <div className="flex gap-1">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => handleRatingClick(value)}
+                      onMouseEnter={() => setHoveredRating(value)}
+                      onMouseLeave={() => setHoveredRating(0)}
+                      className="p-1 rounded hover:bg-accent transition-colors"
+                    >
+                      <Star
+                        className={`w-6 h-6 ${
+                          value <= (hoveredRating || rating)
+                            ? 'fill-yellow-400 text-yellow-400'
+                            : 'text-muted-foreground'
+                        }`}
+                      />
+                    </button>
+                  ))}
+                </div>
+                {rating > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    You rated this form {rating} star{rating !== 1 ? 's' : ''}
+                  </p>
+                )}
+              </div>
+            
+              <div className="space-y-2">
+                <Label htmlFor="comment">Comment (Optional)</Label>
+                <Textarea
+                  id="comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Share your thoughts about this form..."
+                  rows={3}
+                  className="bg-background"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleClose}
+                  className="flex-1"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+                  disabled={rating === 0 || isSubmitting || (!existingFill && hasCompletionCode && !completionCode.trim())}
+                >
+                  {isSubmitting ? 'Submitting...' : existingFill?.rating ? 'Update Rating' : 'Submit Rating'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
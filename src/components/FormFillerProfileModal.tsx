@@ -6,7 +6,8 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { User, Mail, FileText, Star, Award } from 'lucide-react';
+import { User, Mail, FileText, Star, Award, Handshake } from 'lucide-react';
+import { describeReciprocity, hasReciprocityScore, MIN_SUPPORTERS_FOR_SCORE, Reciprocity } from '@/lib/reciprocity';
 
 interface UserProfile {
   id: string;
@@ -16,6 +17,7 @@ interface UserProfile {
   formsFilled: number;
   totalRatings: number;
   badges: string[];
+  reciprocity: Reciprocity | null;
 }
 
 interface FormFillerProfileModalProps {
@@ -70,13 +72,21 @@ const FormFillerProfileModal: React.FC<FormFillerProfileModalProps> = ({
         .select('badge_name')
         .eq('user_id', userId);
 
+      // Get fill-for-fill reciprocity
+      const { data: reciprocity } = await supabase
+        .from('user_reciprocity')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
       setUserProfile({
         id: profile.id,
         name: profile.name,
         formsPosted: formsPosted || 0,
         formsFilled: formsFilled || 0,
         totalRatings: totalRatings || 0,
-        badges: badgeData?.map(b => b.badge_name) || []
+        badges: badgeData?.map(b => b.badge_name) || [],
+        reciprocity
       });
 
     } catch (error) {
@@ -158,6 +168,28 @@ const FormFillerProfileModal: React.FC<FormFillerProfileModalProps> = ({
               </CardContent>
             </Card>
 
+            {/* Reciprocity */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Handshake className="w-5 h-5" />
+                  Fill-for-Fill
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {hasReciprocityScore(userProfile.reciprocity) ? (
+                  <div className="flex items-center gap-4">
+                    <div className="text-3xl font-bold text-emerald-600">{userProfile.reciprocity.score}%</div>
+                    <p className="text-sm text-gray-600">{describeReciprocity(userProfile.reciprocity)}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Not enough fills yet for a score. It appears once {MIN_SUPPORTERS_FOR_SCORE} people have filled their forms.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Badges */}
             {userProfile.badges.length > 0 && (
               <Card>
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { FORM_PROVIDERS, FormProvider } from '@/lib/form-providers';
+
+interface FormProviderIconProps {
+  provider: FormProvider;
+  className?: string;
+}
+
+const FormProviderIcon: React.FC<FormProviderIconProps> = ({ provider, className = '' }) => {
+  const { label, color } = FORM_PROVIDERS[provider] || FORM_PROVIDERS.google;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          aria-label={label}
+          className={`inline-flex items-center justify-center w-6 h-6 rounded-md text-white text-xs font-bold ${color} ${className}`}
+        >
+          {label[0]}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default FormProviderIcon;
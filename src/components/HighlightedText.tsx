@@ -0,0 +1,22 @@
+import React from 'react';
+import { splitHighlights } from '@/lib/search-query';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => (
+  <>
+    {splitHighlights(text).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedText;
@@ -3,11 +3,28 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { FileText, Star, MessageCircle, Calendar, ExternalLink, User } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { FileText, Star, MessageCircle, Calendar, Clock, ExternalLink, User, Pencil, Lock, Unlock, Trash2, RotateCcw, RefreshCw, Send, Share2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import FormFillerProfileModal from './FormFillerProfileModal';
+import EditFormModal from './EditFormModal';
+import {
+  canRenewForm,
+  canRestoreForm,
+  FORM_RENEWAL_DAYS,
+  FORM_STATUS_LABELS,
+  FormStatus,
+  getFormStatus,
+  renewalExpiry,
+  restoreDeadline
+} from '@/lib/form-status';
+import { targetProgress } from '@/lib/form-goals';
+import { fillCountsAsResponse } from '@/lib/fill-verification';
+import { formShareUrl } from '@/lib/form-links';
+import { formatSeconds, medianSeconds } from '@/lib/fill-timing';
 
 interface FormFill {
   id: string;
@@ -16,18 +33,37 @@ interface FormFill {
   created_at: string;
   user_id: string;
   user_name: string;
+  verified: boolean;
+  seconds_to_submit: number | null;
+  edits: FillEdit[];
+}
+
+interface FillEdit {
+  previous_rating: number | null;
+  new_rating: number | null;
+  edited_at: string;
 }
 
 interface PostedForm {
   id: string;
   title: string;
   description: string;
-  google_form_url: string;
+  form_url: string;
   tags: string[];
   created_at: string;
   expire_at: string | null;
+  status: FormStatus;
+  closed_at: string | null;
+  archived_at: string | null;
+  deleted_at: string | null;
+  target_responses: number | null;
+  return_link_enabled: boolean;
   fillCount: number;
+  // Fills counting toward the goal: verified ones only, on forms that verify fills
+  responseCount: number;
   averageRating: number;
+  // Median seconds from opening the survey to submitting, over timed fills only
+  medianSubmitSeconds: number | null;
   fills: FormFill[];
 }
 
@@ -39,6 +75,7 @@ const PostedForms = () => {
   const [selectedFormTitle, setSelectedFormTitle] = useState('');
   const [selectedFillerId, setSelectedFillerId] = useState<string | null>(null);
   const [showFillerProfileModal, setShowFillerProfileModal] = useState(false);
+  const [editingForm, setEditingForm] = useState<PostedForm | null>(null);
   const { session } = useAuth();
 
   const fetchPostedForms = async () => {
@@ -66,7 +103,7 @@ const PostedForms = () => {
         forms.map(async (form) => {
           const { data: fills, error: fillsError } = await supabase
             .from('form_fills')
-            .select('id, comment, rating, created_at, user_id')
+            .select('id, comment, rating, created_at, user_id, verified, seconds_to_submit, edits:form_fill_edits(previous_rating, new_rating, edited_at)')
             .eq('form_id', form.id)
             .order('created_at', { ascending: false });
 
@@ -91,7 +128,10 @@ const PostedForms = () => {
           );
 
           const fillCount = fills?.length || 0;
-          const ratingsWithValues = fills?.filter(f => f.rating !== null && f.rating > 0) || [];
+          // Unverified fills on forms that verify them don't count toward responses or the rating
+          const responses = (fills || []).filter(f => fillCountsAsResponse(f.verified, form));
+          const responseCount = responses.length;
+          const ratingsWithValues = responses.filter(f => f.rating !== null && f.rating > 0);
           const averageRating = ratingsWithValues.length > 0 
             ? ratingsWithValues.reduce((sum, f) => sum + (f.rating || 0), 0) / ratingsWithValues.length 
             : 0;
@@ -99,7 +139,11 @@ const PostedForms = () => {
           return {
             ...form,
             fillCount,
+            responseCount,
             averageRating,
+            medianSubmitSeconds: medianSeconds(
+              (fills || []).map(f => f.seconds_to_submit).filter((seconds): seconds is number => seconds !== null)
+            ),
             fills: fillsWithNames
           };
         })
@@ -125,6 +169,75 @@ const PostedForms = () => {
     setShowFillerProfileModal(true);
   };
 
+  const updateForm = async (
+    formId: string,
+    changes: TablesUpdate<'forms'>,
+    successMessage: string
+  ) => {
+    if (!session?.user) return;
+
+    try {
+      const { error } = await supabase
+        .from('forms')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', formId)
+        .eq('user_id', session.user.id);
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      fetchPostedForms();
+    } catch (error) {
+      console.error('Error updating form:', error);
+      toast.error('Failed to update form');
+    }
+  };
+
+  const handleToggleClosed = (form: PostedForm) => {
+    if (getFormStatus(form) === 'closed') {
+      updateForm(form.id, { status: 'live', closed_at: null }, 'Form reopened');
+    } else {
+      updateForm(form.id, { status: 'closed', closed_at: new Date().toISOString() }, 'Form closed to new responses');
+    }
+  };
+
+  const handlePublish = (form: PostedForm) => {
+    updateForm(form.id, { status: 'live' }, 'Form published to the feed');
+  };
+
+  const handleCopyLink = (form: PostedForm) => {
+    navigator.clipboard.writeText(formShareUrl(form.id));
+    toast.success('Link to your form copied to clipboard!');
+  };
+
+  const handleRenew = (form: PostedForm) => {
+    updateForm(
+      form.id,
+      {
+        status: 'live',
+        expire_at: renewalExpiry().toISOString(),
+        closed_at: null,
+        archived_at: null
+      },
+      `Form renewed for ${FORM_RENEWAL_DAYS} days`
+    );
+  };
+
+  const handleDelete = (form: PostedForm) => {
+    updateForm(
+      form.id,
+      { deleted_at: new Date().toISOString() },
+      'Form deleted. You can restore it from Recently Deleted for 7 days.'
+    );
+  };
+
+  const handleRestore = (form: PostedForm) => {
+    updateForm(form.id, { deleted_at: null }, 'Form restored');
+  };
+
+  const activeForms = postedForms.filter(form => !form.deleted_at);
+  const deletedForms = postedForms.filter(form => form.deleted_at && canRestoreForm(form));
+
   useEffect(() => {
     fetchPostedForms();
   }, [session]);
@@ -137,7 +250,7 @@ const PostedForms = () => {
     );
   }
 
-  if (postedForms.length === 0) {
+  if (activeForms.length === 0 && deletedForms.length === 0) {
     return (
       <Card>
         <CardContent className="text-center py-12">
@@ -157,26 +270,119 @@ const PostedForms = () => {
   return (
     <>
       <div className="space-y-6">
-        {postedForms.map((form) => (
+        {activeForms.map((form) => (
           <Card key={form.id} className="border-slate-200 cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleViewFormFills(form)}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div className="flex-1">
-                  <CardTitle className="text-lg">{form.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-lg">{form.title}</CardTitle>
+                    {getFormStatus(form) !== 'live' && (
+                      <Badge variant={getFormStatus(form) === 'expired' ? 'destructive' : 'secondary'}>
+                        {FORM_STATUS_LABELS[getFormStatus(form)]}
+                      </Badge>
+                    )}
+                  </div>
                   <CardDescription className="mt-2">{form.description}</CardDescription>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    window.open(form.google_form_url, '_blank');
-                  }}
-                  className="ml-4"
-                >
-                  <ExternalLink className="w-4 h-4 mr-2" />
-                  View Form
-                </Button>
+                <div className="flex flex-wrap justify-end gap-2 ml-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      window.open(form.form_url, '_blank');
+                    }}
+                  >
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    View Form
+                  </Button>
+                  {getFormStatus(form) !== 'draft' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCopyLink(form);
+                      }}
+                    >
+                      <Share2 className="w-4 h-4 mr-2" />
+                      Copy Link
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingForm(form);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  {getFormStatus(form) === 'draft' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handlePublish(form);
+                      }}
+                    >
+                      <Send className="w-4 h-4 mr-2" />
+                      Publish
+                    </Button>
+                  )}
+                  {canRenewForm(form) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRenew(form);
+                      }}
+                      className="text-emerald-600 hover:text-emerald-700"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Renew
+                    </Button>
+                  )}
+                  {(getFormStatus(form) === 'live' || getFormStatus(form) === 'closed') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleToggleClosed(form);
+                      }}
+                    >
+                      {getFormStatus(form) === 'closed' ? (
+                        <>
+                          <Unlock className="w-4 h-4 mr-2" />
+                          Reopen
+                        </>
+                      ) : (
+                        <>
+                          <Lock className="w-4 h-4 mr-2" />
+                          Close Early
+                        </>
+                      )}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(form);
+                    }}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -195,8 +401,11 @@ const PostedForms = () => {
                 {/* Stats */}
                 <div className="grid grid-cols-3 gap-4">
                   <div className="text-center p-3 bg-gray-50 rounded-lg">
-                    <div className="text-xl font-bold text-emerald-600">{form.fillCount}</div>
+                    <div className="text-xl font-bold text-emerald-600">{form.responseCount}</div>
                     <div className="text-sm text-gray-600">Responses</div>
+                    {form.fillCount > form.responseCount && (
+                      <div className="text-xs text-gray-500">{form.fillCount - form.responseCount} awaiting verification</div>
+                    )}
                   </div>
                   <div className="text-center p-3 bg-gray-50 rounded-lg">
                     <div className="flex items-center justify-center gap-1">
@@ -215,6 +424,17 @@ const PostedForms = () => {
                   </div>
                 </div>
 
+                {/* Target Progress */}
+                {form.target_responses && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>{form.responseCount} / {form.target_responses} responses</span>
+                      <span>{targetProgress(form.responseCount, form.target_responses)}%</span>
+                    </div>
+                    <Progress value={targetProgress(form.responseCount, form.target_responses)} className="h-2" />
+                  </div>
+                )}
+
                 {/* Form Info */}
                 <div className="flex items-center gap-4 text-sm text-gray-500 pt-2 border-t">
                   <div className="flex items-center gap-1">
@@ -227,6 +447,12 @@ const PostedForms = () => {
                       Expires {new Date(form.expire_at).toLocaleDateString()}
                     </div>
                   )}
+                  {form.medianSubmitSeconds !== null && (
+                    <div className="flex items-center gap-1" title="Median time from opening your form to submitting a rating">
+                      <Clock className="w-4 h-4" />
+                      Median time {formatSeconds(form.medianSubmitSeconds)}
+                    </div>
+                  )}
                   <div className="flex items-center gap-1 text-emerald-600 font-medium">
                     <User className="w-4 h-4" />
                     Click to view responses
@@ -236,8 +462,42 @@ const PostedForms = () => {
             </CardContent>
           </Card>
         ))}
+
+        {/* Recently Deleted */}
+        {deletedForms.length > 0 && (
+          <div className="space-y-3 pt-4 border-t">
+            <h3 className="font-semibold text-gray-700 flex items-center gap-2">
+              <Trash2 className="w-4 h-4" />
+              Recently Deleted
+            </h3>
+            {deletedForms.map((form) => (
+              <div key={form.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-slate-200">
+                <div>
+                  <h4 className="font-medium text-gray-700">{form.title}</h4>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Can be restored until {restoreDeadline(form)?.toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRestore(form)}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Edit Form Modal */}
+      {editingForm && (
+        <EditFormModal
+          isOpen={!!editingForm}
+          onClose={() => setEditingForm(null)}
+          onSaved={fetchPostedForms}
+          form={editingForm}
+        />
+      )}
+
       {/* Form Fills Modal */}
       {showFormFillsModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -277,6 +537,20 @@ const PostedForms = () => {
                     {fill.comment && (
                       <p className="text-gray-700 text-sm mt-2">{fill.comment}</p>
                     )}
+                    {fill.edits.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs text-gray-500">
+                        {[...fill.edits]
+                          .sort((a, b) => a.edited_at.localeCompare(b.edited_at))
+                          .map(edit => (
+                            <li key={edit.edited_at}>
+                              {edit.previous_rating !== edit.new_rating
+                                ? `Rating changed from ${edit.previous_rating ?? 'none'} to ${edit.new_rating ?? 'none'}`
+                                : 'Comment edited'}{' '}
+                              on {new Date(edit.edited_at).toLocaleDateString()}
+                            </li>
+                          ))}
+                      </ul>
+                    )}
                     {!fill.comment && !fill.rating && (
                       <p className="text-gray-400 text-sm italic">No comment or rating provided</p>
                     )}
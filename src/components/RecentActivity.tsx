@@ -12,6 +12,7 @@ interface ActivityItem {
   title: string;
   date: string;
   rating?: number;
+  status?: 'closed' | 'deleted';
 }
 
 const RecentActivity = () => {
@@ -32,7 +33,7 @@ const RecentActivity = () => {
           id,
           rating,
           created_at,
-          forms (title)
+          forms (title, closed_at, deleted_at)
         `)
         .eq('user_id', session.user.id)
         .order('created_at', { ascending: false })
@@ -43,8 +44,9 @@ const RecentActivity = () => {
       // Get recent form posts
       const { data: formPosts, error: postsError } = await supabase
         .from('forms')
-        .select('id, title, created_at')
+        .select('id, title, created_at, closed_at')
         .eq('user_id', session.user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -57,13 +59,15 @@ const RecentActivity = () => {
           type: 'form_filled' as const,
           title: fill.forms?.title || 'Unknown Form',
           date: fill.created_at,
-          rating: fill.rating
+          rating: fill.rating,
+          status: fill.forms?.deleted_at ? 'deleted' as const : fill.forms?.closed_at ? 'closed' as const : undefined
         })) || []),
         ...(formPosts?.map(post => ({
           id: post.id,
           type: 'form_posted' as const,
           title: post.title,
-          date: post.created_at
+          date: post.created_at,
+          status: post.closed_at ? 'closed' as const : undefined
         })) || [])
       ];
 
@@ -131,6 +135,11 @@ const RecentActivity = () => {
                     >
                       {activity.type === 'form_filled' ? 'Filled' : 'Posted'}
                     </Badge>
+                    {activity.status && (
+                      <Badge variant="outline" className="text-gray-500">
+                        {activity.status === 'deleted' ? 'Deleted' : 'Closed'}
+                      </Badge>
+                    )}
                     {activity.rating && (
                       <div className="flex items-center gap-1">
                         <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { FILL_SESSION_KEY_PARAM, FILL_TOKEN_PARAM, fillReturnUrl } from '@/lib/fill-return-links';
+
+interface ReturnLinkSettingProps {
+  id: string;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+  // The form's secret return key, built into the link shown here
+  returnKey: string;
+}
+
+const ReturnLinkSetting: React.FC<ReturnLinkSettingProps> = ({ id, enabled, onChange, returnKey }) => {
+  const returnUrl = fillReturnUrl(returnKey);
+
+  const copyReturnUrl = () => {
+    navigator.clipboard.writeText(returnUrl);
+    toast.success('Return link copied to clipboard!');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch id={id} checked={enabled} onCheckedChange={onChange} />
+        <Label htmlFor={id}>Verify fills with a return link</Label>
+      </div>
+      {enabled && (
+        <div className="space-y-2 rounded-lg border border-slate-200 p-3">
+          <p className="text-sm text-slate-500">
+            Each filler's survey link gets <code>{FILL_TOKEN_PARAM}</code> and <code>{FILL_SESSION_KEY_PARAM}</code>{' '}
+            parameters. Set your survey's after-submit redirect to this address, inserting those parameters in
+            place of <code>{`{${FILL_TOKEN_PARAM}}`}</code> and <code>{`{${FILL_SESSION_KEY_PARAM}}`}</code>, and
+            fills are verified automatically.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-slate-100 px-2 py-1.5 text-xs">{returnUrl}</code>
+            <Button type="button" variant="outline" size="sm" onClick={copyReturnUrl}>
+              <Copy className="w-3 h-3 mr-1" />
+              Copy
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">
+            The link contains a secret key for this form. Only put it in the redirect, never in the survey
+            itself, or fillers could verify without submitting.
+          </p>
+          <p className="text-xs text-slate-500">
+            Google Forms can't redirect after submitting; use a completion code there instead.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnLinkSetting;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bookmark, Clock, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import FormFillModal from './FormFillModal';
+import FormProviderIcon from './FormProviderIcon';
+import { SavedForm } from '@/hooks/use-saved-forms';
+import { isExpiringSoon, savedFormUnavailableReason } from '@/lib/saved-forms';
+
+interface SavedFormsListProps {
+  savedForms: SavedForm[];
+  onRemove: (savedId: string) => void;
+  onFormFilled?: () => void;
+  emptyMessage?: string;
+}
+
+const SavedFormsList: React.FC<SavedFormsListProps> = ({
+  savedForms,
+  onRemove,
+  onFormFilled,
+  emptyMessage = 'No saved forms yet. Bookmark forms in the feed to fill them later.'
+}) => {
+  const [fillingForm, setFillingForm] = useState<SavedForm['forms'] | null>(null);
+
+  if (savedForms.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Bookmark className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {savedForms.map(saved => {
+          const form = saved.forms;
+          const unavailableReason = savedFormUnavailableReason(form);
+          const expiringSoon = form && isExpiringSoon(form);
+
+          return (
+            <div
+              key={saved.id}
+              className={`flex items-center justify-between gap-4 p-4 rounded-lg border ${
+                unavailableReason ? 'border-slate-200 bg-slate-50 opacity-75' : 'border-slate-200'
+              }`}
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  {form && <FormProviderIcon provider={form.provider} />}
+                  <h4 className="font-semibold truncate">{form?.title || 'Unavailable form'}</h4>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-sm text-slate-500">
+                  {unavailableReason ? (
+                    <Badge variant="secondary">{unavailableReason}</Badge>
+                  ) : form.expire_at ? (
+                    <span className={`flex items-center gap-1 ${expiringSoon ? 'text-amber-700 font-medium' : ''}`}>
+                      <Clock className="w-3 h-3" />
+                      Expires {formatDistanceToNow(new Date(form.expire_at), { addSuffix: true })}
+                    </span>
+                  ) : (
+                    <span>No expiry date</span>
+                  )}
+                  <span>· Saved {new Date(saved.created_at).toLocaleDateString()}</span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {!unavailableReason && (
+                  <Button
+                    size="sm"
+                    onClick={() => setFillingForm(form)}
+                    className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+                  >
+                    Fill Now
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRemove(saved.id)}
+                  title="Remove from saved forms"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {fillingForm && (
+        <FormFillModal
+          isOpen={!!fillingForm}
+          onClose={() => setFillingForm(null)}
+          formId={fillingForm.id}
+          formTitle={fillingForm.title}
+          formUrl={fillingForm.form_url}
+          onFormFilled={() => onFormFilled?.()}
+        />
+      )}
+    </>
+  );
+};
+
+export default SavedFormsList;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BookmarkPlus, X } from 'lucide-react';
+import { SavedSearch } from '@/hooks/use-saved-searches';
+
+interface SavedSearchesProps {
+  savedSearches: SavedSearch[];
+  // The feed's current query string, to highlight the matching saved search
+  activeQuery: string;
+  suggestedName: string;
+  onApply: (search: SavedSearch) => void;
+  onRemove: (searchId: string) => void;
+  onSave: (name: string) => Promise<boolean>;
+}
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({
+  savedSearches,
+  activeQuery,
+  suggestedName,
+  onApply,
+  onRemove,
+  onSave
+}) => {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openSaveDialog = () => {
+    setName(suggestedName);
+    setShowSaveDialog(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    const saved = await onSave(name);
+    setIsSaving(false);
+    if (saved) setShowSaveDialog(false);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        {savedSearches.map(search => {
+          const isActive = search.query === activeQuery;
+          return (
+            <div
+              key={search.id}
+              className={`flex items-center rounded-full border text-sm ${
+                isActive ? 'border-emerald-600 bg-emerald-50 text-emerald-800' : 'border-slate-200 bg-white text-slate-700'
+              }`}
+            >
+              <button type="button" onClick={() => onApply(search)} className="pl-3 pr-1 py-1 hover:text-emerald-700">
+                {search.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(search.id)}
+                title="Remove saved search"
+                className="pr-2 pl-1 py-1 text-slate-400 hover:text-red-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={openSaveDialog}
+          disabled={!activeQuery || savedSearches.some(search => search.query === activeQuery)}
+          className="text-emerald-700"
+        >
+          <BookmarkPlus className="w-4 h-4 mr-1" />
+          Save this search
+        </Button>
+      </div>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Save Search</DialogTitle>
+              <DialogDescription>
+                Saved searches appear above the feed so you can get back to these filters in one click.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="savedSearchName">Name</Label>
+              <Input
+                id="savedSearchName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                placeholder="e.g. psychology, closing soon"
+                className="border-slate-200"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowSaveDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !name.trim()}
+                className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Ban, Filter } from 'lucide-react';
+import { TagMatch } from '@/lib/feed-filters';
+
+export interface TagSelection {
+  tags: string[];
+  excludedTags: string[];
+  tagMatch: TagMatch;
+}
+
+interface TagFilterProps extends TagSelection {
+  // Every known tag, most used first
+  allTags: string[];
+  // Results per tag for the feed's current filters; tags missing here have none
+  counts: Record<string, number>;
+  onChange: (selection: Partial<TagSelection>) => void;
+}
+
+const TagFilter: React.FC<TagFilterProps> = ({ allTags, counts, tags, excludedTags, tagMatch, onChange }) => {
+  const [query, setQuery] = useState('');
+
+  const selectedCount = tags.length + excludedTags.length;
+  const visibleTags = allTags.filter(tag => tag.includes(query.trim().toLowerCase()));
+
+  const toggleIncluded = (tag: string) => {
+    onChange(tags.includes(tag)
+      ? { tags: tags.filter(t => t !== tag) }
+      : { tags: [...tags, tag], excludedTags: excludedTags.filter(t => t !== tag) });
+  };
+
+  const toggleExcluded = (tag: string) => {
+    onChange(excludedTags.includes(tag)
+      ? { excludedTags: excludedTags.filter(t => t !== tag) }
+      : { excludedTags: [...excludedTags, tag], tags: tags.filter(t => t !== tag) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full md:w-48 justify-start border-slate-200 font-normal">
+          <Filter className="w-4 h-4 mr-2" />
+          {selectedCount > 0 ? `Tags (${selectedCount})` : 'All Tags'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3" align="end">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600">Match</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={tagMatch}
+              onValueChange={(value) => value && onChange({ tagMatch: value as TagMatch })}
+            >
+              <ToggleGroupItem value="all">All tags</ToggleGroupItem>
+              <ToggleGroupItem value="any">Any tag</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <Input
+            placeholder="Find a tag..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-8 border-slate-200"
+          />
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {visibleTags.map(tag => {
+              const isExcluded = excludedTags.includes(tag);
+              return (
+                <div key={tag} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-slate-50">
+                  <Checkbox
+                    id={`tag-filter-${tag}`}
+                    checked={tags.includes(tag)}
+                    onCheckedChange={() => toggleIncluded(tag)}
+                  />
+                  <label
+                    htmlFor={`tag-filter-${tag}`}
+                    className={`flex-1 text-sm cursor-pointer ${isExcluded ? 'line-through text-red-600' : ''}`}
+                  >
+                    {tag}
+                  </label>
+                  <span className="text-xs text-slate-400">{counts[tag] ?? 0}</span>
+                  <button
+                    type="button"
+                    onClick={() => toggleExcluded(tag)}
+                    title={isExcluded ? `Stop excluding ${tag}` : `Hide forms tagged ${tag}`}
+                    className={isExcluded ? 'text-red-600' : 'text-slate-300 hover:text-red-500'}
+                  >
+                    <Ban className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+            {visibleTags.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-2">No matching tags</p>
+            )}
+          </div>
+          {selectedCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ tags: [], excludedTags: [] })}
+              className="w-full text-slate-600"
+            >
+              Clear tag filters
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagFilter;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTagRegistry } from '@/hooks/use-tag-registry';
+import { suggestTags } from '@/lib/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+}
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, className = '' }) => {
+  const [newTag, setNewTag] = useState('');
+  const { tags: registry, normalize } = useTagRegistry();
+
+  const suggestions = suggestTags(newTag, registry, tags);
+
+  const addTag = (raw: string) => {
+    if (!raw.trim()) return;
+
+    const tag = normalize(raw);
+    if (tag !== raw.trim().toLowerCase()) {
+      toast.info(`"${raw.trim()}" is merged into "${tag}"`);
+    }
+    if (!tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter(tag => tag !== tagToRemove));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add a tag"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag(newTag))}
+          className={`flex-1 ${className}`}
+        />
+        <Button type="button" onClick={() => addTag(newTag)} variant="outline" size="sm" className={className}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map(({ tag, count }) => (
+            <Badge
+              key={tag}
+              variant="outline"
+              onClick={() => addTag(tag)}
+              className="cursor-pointer hover:bg-emerald-50"
+            >
+              {tag} <span className="ml-1 text-gray-400">{count}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {tags.map(tag => (
+          <Badge key={tag} variant="secondary" className="flex items-center gap-1 bg-emerald-100 text-emerald-800">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 hover:text-red-600"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -7,6 +7,9 @@ interface User {
   id: string;
   email: string;
   name: string;
+  occupation: string | null;
+  country: string | null;
+  birthYear: number | null;
   formsPosted: number;
   formsFilled: number;
   totalRatings: number;
@@ -117,6 +120,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       console.log('User profile fetched:', profile);
+
+      // Eligibility attributes are private to their owner, so they live outside the public profile
+      const { data: attributes, error: attributesError } = await supabase
+        .from('participant_attributes')
+        .select('occupation, country, birth_year')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (attributesError) {
+        console.error('Error fetching participant attributes:', attributesError);
+      }
       
       // Fetch user stats
       const stats = await fetchUserStats(userId);
@@ -125,6 +139,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         id: profile.id,
         email: userEmail,
         name: profile.name,
+        occupation: attributes?.occupation ?? null,
+        country: attributes?.country ?? null,
+        birthYear: attributes?.birth_year ?? null,
         ...stats
       };
     } catch (error) {
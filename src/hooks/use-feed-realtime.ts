@@ -0,0 +1,46 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+
+// Fills tend to arrive in bursts; wait for a quiet moment before refreshing counts
+const FILL_REFRESH_DELAY_MS = 500
+
+interface FeedRealtimeHandlers {
+  // A form was posted straight to the feed (drafts published later are picked up on the next refresh)
+  onFormPublished: (form: Tables<"forms">) => void
+  // Some fill was added, edited or removed; deletes only carry the fill's id, so callers refresh what they show
+  onFillsChanged: () => void
+}
+
+export function useFeedRealtime({ onFormPublished, onFillsChanged }: FeedRealtimeHandlers) {
+  // Subscribe once and always call the latest handlers
+  const handlers = React.useRef({ onFormPublished, onFillsChanged })
+  handlers.current = { onFormPublished, onFillsChanged }
+
+  React.useEffect(() => {
+    let fillTimeout: ReturnType<typeof setTimeout> | undefined
+
+    const channel = supabase
+      .channel("feed")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "forms" }, (payload) => {
+        const form = payload.new as Tables<"forms">
+        if (form.status === "live" && !form.deleted_at) {
+          handlers.current.onFormPublished(form)
+        }
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "form_fills" }, () => {
+        clearTimeout(fillTimeout)
+        fillTimeout = setTimeout(() => handlers.current.onFillsChanged(), FILL_REFRESH_DELAY_MS)
+      })
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.warn("Live feed updates unavailable:", status)
+        }
+      })
+
+    return () => {
+      clearTimeout(fillTimeout)
+      supabase.removeChannel(channel)
+    }
+  }, [])
+}
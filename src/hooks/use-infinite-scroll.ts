@@ -0,0 +1,26 @@
+import * as React from "react"
+
+// Calls onLoadMore whenever the returned sentinel element scrolls into view
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean) {
+  const sentinelRef = React.useRef<HTMLDivElement>(null)
+  const onLoadMoreRef = React.useRef(onLoadMore)
+  onLoadMoreRef.current = onLoadMore
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin: "400px" }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled])
+
+  return sentinelRef
+}
@@ -0,0 +1,59 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { withFillToken } from "@/lib/fill-return-links"
+
+// Opens a form's survey in a new tab. Signed-in users get a fill session first, which
+// times their fill and, on forms with a return link, adds the token and session key to the survey URL.
+// Every button that opens a survey goes through here; a fill without a session is rejected.
+export function useOpenSurvey() {
+  const { user } = useAuth()
+
+  return React.useCallback(async (formId: string, formUrl: string) => {
+    if (!formUrl) {
+      toast.error("Form URL is not available")
+      return
+    }
+
+    // Ensure the URL has a protocol
+    let urlToOpen = formUrl
+    if (!formUrl.startsWith("http://") && !formUrl.startsWith("https://")) {
+      urlToOpen = "https://" + formUrl
+    }
+
+    try {
+      // Open the tab during the click so popup blockers allow it, then load the survey once the session is recorded
+      const newWindow = window.open("", "_blank")
+
+      // Records that the survey was opened; the fill submitted afterwards is timed from it
+      if (user) {
+        const { data, error } = await supabase.rpc("open_fill_session", { p_form_id: formId })
+        if (error) {
+          console.error("Error starting fill session:", error)
+        } else if (data?.[0]?.return_token) {
+          urlToOpen = withFillToken(urlToOpen, data[0].return_token, data[0].return_key)
+        }
+      }
+
+      if (newWindow) {
+        newWindow.opener = null
+        newWindow.location.href = urlToOpen
+      } else {
+        // If popup was blocked, try alternative method
+        const link = document.createElement("a")
+        link.href = urlToOpen
+        link.target = "_blank"
+        link.rel = "noopener noreferrer"
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+      }
+
+      toast.success("Form opened in new tab")
+    } catch (error) {
+      console.error("Error opening form:", error)
+      toast.error("Failed to open form. Please check the URL.")
+    }
+  }, [user])
+}
@@ -0,0 +1,36 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { Reciprocity } from "@/lib/reciprocity"
+
+// Reciprocity for a changing set of users, e.g. the posters on the current feed pages.
+// Users are fetched once each; users nobody has filled for yet have no entry.
+export function useReciprocity(userIds: string[]) {
+  const [reciprocity, setReciprocity] = React.useState<Record<string, Reciprocity>>({})
+  const requested = React.useRef(new Set<string>())
+  const key = [...new Set(userIds)].sort().join(",")
+
+  React.useEffect(() => {
+    const missing = key.split(",").filter((id) => id && !requested.current.has(id))
+    if (missing.length === 0) return
+    missing.forEach((id) => requested.current.add(id))
+
+    const fetchReciprocity = async () => {
+      const { data, error } = await supabase.from("user_reciprocity").select("*").in("user_id", missing)
+
+      if (error) {
+        console.error("Error fetching reciprocity:", error)
+        missing.forEach((id) => requested.current.delete(id))
+        return
+      }
+
+      setReciprocity((current) => ({
+        ...current,
+        ...Object.fromEntries((data || []).map((row) => [row.user_id, row])),
+      }))
+    }
+
+    fetchReciprocity()
+  }, [key])
+
+  return reciprocity
+}
@@ -0,0 +1,95 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+
+const SAVED_FORM_SELECT = `
+  id,
+  created_at,
+  forms (id, title, description, form_url, provider, tags, expire_at, status, closed_at, deleted_at)
+`
+
+async function fetchSavedForms(userId: string) {
+  return supabase
+    .from("saved_forms")
+    .select(SAVED_FORM_SELECT)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+}
+
+export type SavedForm = NonNullable<Awaited<ReturnType<typeof fetchSavedForms>>["data"]>[number]
+
+export function useSavedForms() {
+  const { session } = useAuth()
+  const userId = session?.user?.id
+  const [savedForms, setSavedForms] = React.useState<SavedForm[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    if (!userId) {
+      setSavedForms([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await fetchSavedForms(userId)
+      if (error) throw error
+      setSavedForms(data || [])
+    } catch (error) {
+      console.error("Error fetching saved forms:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const savedIds = React.useMemo(
+    () => new Set(savedForms.map((saved) => saved.forms?.id).filter(Boolean)),
+    [savedForms]
+  )
+
+  const toggleSaved = React.useCallback(
+    async (formId: string) => {
+      if (!userId) {
+        toast.error("Please log in to save forms")
+        return
+      }
+
+      const wasSaved = savedIds.has(formId)
+      const { error } = wasSaved
+        ? await supabase.from("saved_forms").delete().eq("user_id", userId).eq("form_id", formId)
+        : await supabase.from("saved_forms").insert({ user_id: userId, form_id: formId })
+
+      if (error) {
+        console.error("Error updating saved forms:", error)
+        toast.error(wasSaved ? "Failed to remove bookmark" : "Failed to save form")
+        return
+      }
+
+      toast.success(wasSaved ? "Removed from saved forms" : "Saved for later")
+      refresh()
+    },
+    [userId, savedIds, refresh]
+  )
+
+  const removeSaved = React.useCallback(
+    async (savedId: string) => {
+      const { error } = await supabase.from("saved_forms").delete().eq("id", savedId)
+
+      if (error) {
+        console.error("Error removing saved form:", error)
+        toast.error("Failed to remove bookmark")
+        return
+      }
+
+      setSavedForms((current) => current.filter((saved) => saved.id !== savedId))
+    },
+    []
+  )
+
+  return { savedForms, savedIds, loading, toggleSaved, removeSaved, refresh }
+}
@@ -0,0 +1,81 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { useAuth } from "@/contexts/AuthContext"
+
+export type SavedSearch = Tables<"saved_searches">
+
+export function useSavedSearches() {
+  const { session } = useAuth()
+  const userId = session?.user?.id
+  const [savedSearches, setSavedSearches] = React.useState<SavedSearch[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    if (!userId) {
+      setSavedSearches([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+      if (error) throw error
+      setSavedSearches(data || [])
+    } catch (error) {
+      console.error("Error fetching saved searches:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Resolves to whether the search was saved, so callers can keep their dialog open on failure
+  const saveSearch = React.useCallback(
+    async (name: string, query: string) => {
+      if (!userId) {
+        toast.error("Please log in to save searches")
+        return false
+      }
+
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .insert({ user_id: userId, name: name.trim(), query })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error saving search:", error)
+        toast.error(error.code === "23505" ? "You already have a saved search with that name" : "Failed to save search")
+        return false
+      }
+
+      setSavedSearches((current) => [...current, data])
+      toast.success(`Saved "${data.name}"`)
+      return true
+    },
+    [userId]
+  )
+
+  const removeSearch = React.useCallback(async (searchId: string) => {
+    const { error } = await supabase.from("saved_searches").delete().eq("id", searchId)
+
+    if (error) {
+      console.error("Error removing saved search:", error)
+      toast.error("Failed to remove saved search")
+      return
+    }
+
+    setSavedSearches((current) => current.filter((search) => search.id !== searchId))
+  }, [])
+
+  return { savedSearches, loading, saveSearch, removeSearch, refresh }
+}
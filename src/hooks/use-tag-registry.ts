@@ -0,0 +1,40 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { normalizeTag, type TagUsage } from "@/lib/tags"
+
+export function useTagRegistry() {
+  const [tags, setTags] = React.useState<TagUsage[]>([])
+  const [aliases, setAliases] = React.useState<Record<string, string>>({})
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    const fetchRegistry = async () => {
+      try {
+        const [{ data: usage, error: usageError }, { data: aliasRows, error: aliasError }] = await Promise.all([
+          supabase.from("tag_usage").select("tag, usage_count").order("usage_count", { ascending: false }),
+          supabase.from("tag_aliases").select("alias, tag"),
+        ])
+
+        if (usageError) throw usageError
+        if (aliasError) throw aliasError
+
+        setTags(
+          (usage || [])
+            .filter((row) => row.tag)
+            .map((row) => ({ tag: row.tag, count: row.usage_count || 0 }))
+        )
+        setAliases(Object.fromEntries((aliasRows || []).map((row) => [row.alias, row.tag])))
+      } catch (error) {
+        console.error("Error fetching tag registry:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRegistry()
+  }, [])
+
+  const normalize = React.useCallback((raw: string) => normalizeTag(raw, aliases), [aliases])
+
+  return { tags, aliases, loading, normalize }
+}
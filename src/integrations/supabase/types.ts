@@ -9,6 +9,150 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      archived_form_fills: {
+        Row: {
+          archive_reason: string
+          archived_at: string
+          comment: string | null
+          created_at: string
+          form_id: string
+          id: string
+          rating: number | null
+          seconds_to_submit: number | null
+          session_id: string | null
+          user_id: string
+          verified: boolean
+          verified_at: string | null
+        }
+        Insert: {
+          archive_reason: string
+          archived_at?: string
+          comment?: string | null
+          created_at: string
+          form_id: string
+          id: string
+          rating?: number | null
+          seconds_to_submit?: number | null
+          session_id?: string | null
+          user_id: string
+          verified: boolean
+          verified_at?: string | null
+        }
+        Update: {
+          archive_reason?: string
+          archived_at?: string
+          comment?: string | null
+          created_at?: string
+          form_id?: string
+          id?: string
+          rating?: number | null
+          seconds_to_submit?: number | null
+          session_id?: string | null
+          user_id?: string
+          verified?: boolean
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      fill_sessions: {
+        Row: {
+          form_id: string
+          id: string
+          opened_at: string
+          return_key: string | null
+          user_id: string
+        }
+        Insert: {
+          form_id: string
+          id?: string
+          opened_at?: string
+          return_key?: string | null
+          user_id: string
+        }
+        Update: {
+          form_id?: string
+          id?: string
+          opened_at?: string
+          return_key?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fill_sessions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_completion_codes: {
+        Row: {
+          code: string
+          created_at: string
+          form_id: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          form_id: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          form_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_completion_codes_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: true
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_fill_edits: {
+        Row: {
+          edited_at: string
+          fill_id: string
+          id: string
+          new_comment: string | null
+          new_rating: number | null
+          previous_comment: string | null
+          previous_rating: number | null
+        }
+        Insert: {
+          edited_at?: string
+          fill_id: string
+          id?: string
+          new_comment?: string | null
+          new_rating?: number | null
+          previous_comment?: string | null
+          previous_rating?: number | null
+        }
+        Update: {
+          edited_at?: string
+          fill_id?: string
+          id?: string
+          new_comment?: string | null
+          new_rating?: number | null
+          previous_comment?: string | null
+          previous_rating?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_fill_edits_fill_id_fkey"
+            columns: ["fill_id"]
+            isOneToOne: false
+            referencedRelation: "form_fills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       form_fills: {
         Row: {
           comment: string | null
@@ -16,7 +160,11 @@ export type Database = {
           form_id: string
           id: string
           rating: number | null
+          seconds_to_submit: number | null
+          session_id: string | null
           user_id: string
+          verified: boolean
+          verified_at: string | null
         }
         Insert: {
           comment?: string | null
@@ -24,7 +172,11 @@ export type Database = {
           form_id: string
           id?: string
           rating?: number | null
+          seconds_to_submit?: number | null
+          session_id?: string | null
           user_id: string
+          verified?: boolean
+          verified_at?: string | null
         }
         Update: {
           comment?: string | null
@@ -32,7 +184,11 @@ export type Database = {
           form_id?: string
           id?: string
           rating?: number | null
+          seconds_to_submit?: number | null
+          session_id?: string | null
           user_id?: string
+          verified?: boolean
+          verified_at?: string | null
         }
         Relationships: [
           {
@@ -42,47 +198,155 @@ export type Database = {
             referencedRelation: "forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "form_fills_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "fill_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_return_keys: {
+        Row: {
+          created_at: string
+          form_id: string
+          key: string
+        }
+        Insert: {
+          created_at?: string
+          form_id: string
+          key: string
+        }
+        Update: {
+          created_at?: string
+          form_id?: string
+          key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_return_keys_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: true
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       forms: {
         Row: {
+          archived_at: string | null
+          closed_at: string | null
           created_at: string
+          deleted_at: string | null
           description: string | null
+          eligible_countries: string[] | null
+          eligible_occupations: string[] | null
+          estimated_minutes: number | null
           expire_at: string | null
-          google_form_url: string
+          external_form_id: string | null
+          form_url: string
+          group_key: string
+          has_completion_code: boolean
           id: string
+          max_age: number | null
+          min_age: number | null
+          provider: Database["public"]["Enums"]["form_provider"]
           qr_code: string | null
+          question_count: number | null
+          return_link_enabled: boolean
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["form_status"]
           tags: string[] | null
+          target_responses: number | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
+          closed_at?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          eligible_countries?: string[] | null
+          eligible_occupations?: string[] | null
+          estimated_minutes?: number | null
           expire_at?: string | null
-          google_form_url: string
+          external_form_id?: string | null
+          form_url: string
+          group_key?: string
+          has_completion_code?: boolean
           id?: string
+          max_age?: number | null
+          min_age?: number | null
+          provider?: Database["public"]["Enums"]["form_provider"]
           qr_code?: string | null
+          question_count?: number | null
+          return_link_enabled?: boolean
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["form_status"]
           tags?: string[] | null
+          target_responses?: number | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
+          closed_at?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          eligible_countries?: string[] | null
+          eligible_occupations?: string[] | null
+          estimated_minutes?: number | null
           expire_at?: string | null
-          google_form_url?: string
+          external_form_id?: string | null
+          form_url?: string
+          group_key?: string
+          has_completion_code?: boolean
           id?: string
+          max_age?: number | null
+          min_age?: number | null
+          provider?: Database["public"]["Enums"]["form_provider"]
           qr_code?: string | null
+          question_count?: number | null
+          return_link_enabled?: boolean
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["form_status"]
           tags?: string[] | null
+          target_responses?: number | null
           title?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      participant_attributes: {
+        Row: {
+          birth_year: number | null
+          country: string | null
+          occupation: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          birth_year?: number | null
+          country?: string | null
+          occupation?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          birth_year?: number | null
+          country?: string | null
+          occupation?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -104,6 +368,77 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_forms: {
+        Row: {
+          created_at: string
+          form_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          form_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          form_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_forms_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tag_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          tag: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          tag: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          tag?: string
+        }
+        Relationships: []
+      }
       user_badges: {
         Row: {
           badge_name: string
@@ -127,13 +462,284 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      tag_usage: {
+        Row: {
+          tag: string | null
+          usage_count: number | null
+        }
+        Relationships: []
+      }
+      user_reciprocity: {
+        Row: {
+          filled_back_count: number | null
+          score: number | null
+          supporter_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      advance_form_lifecycle: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      canonical_tags: {
+        Args: { raw_tags: string[] }
+        Returns: string[]
+      }
+      complete_fill_from_token: {
+        Args: { p_key: string; p_session_key: string; p_token: string }
+        Returns: {
+          status: string
+          form_id: string
+          fill_id: string
+        }[]
+      }
+      feed_form_stats: {
+        Args: {
+          p_form_ids: string[]
+          p_statuses?: Database["public"]["Enums"]["form_status"][]
+        }
+        Returns: {
+          id: string
+          fill_count: number
+          average_rating: number
+        }[]
+      }
+      feed_group_stats: {
+        Args: {
+          p_group_key: string
+          p_statuses?: Database["public"]["Enums"]["form_status"][]
+          p_as_of?: string
+        }
+        Returns: {
+          fill_count: number
+          average_rating: number
+        }[]
+      }
+      feed_matches: {
+        Args: {
+          p_statuses?: Database["public"]["Enums"]["form_status"][]
+          p_search?: string
+          p_include_tags?: string[]
+          p_any_tags?: string[]
+          p_exclude_tags?: string[]
+          p_provider?: Database["public"]["Enums"]["form_provider"]
+          p_min_minutes?: number
+          p_max_minutes?: number
+          p_eligible_only?: boolean
+          p_hide_filled?: boolean
+          p_for_you?: boolean
+        }
+        Returns: {
+          id: string
+          user_id: string
+          title: string
+          description: string | null
+          form_url: string
+          provider: Database["public"]["Enums"]["form_provider"]
+          external_form_id: string | null
+          group_key: string
+          tags: string[] | null
+          status: Database["public"]["Enums"]["form_status"]
+          created_at: string
+          expire_at: string | null
+          closed_at: string | null
+          target_responses: number | null
+          eligible_occupations: string[] | null
+          eligible_countries: string[] | null
+          min_age: number | null
+          max_age: number | null
+          estimated_minutes: number | null
+          question_count: number | null
+          author_name: string
+          my_fill_id: string | null
+          my_rating: number | null
+          my_filled_at: string | null
+          relevance: number
+        }[]
+      }
+      feed_page: {
+        Args: {
+          p_statuses?: Database["public"]["Enums"]["form_status"][]
+          p_search?: string
+          p_include_tags?: string[]
+          p_any_tags?: string[]
+          p_exclude_tags?: string[]
+          p_provider?: Database["public"]["Enums"]["form_provider"]
+          p_min_minutes?: number
+          p_max_minutes?: number
+          p_eligible_only?: boolean
+          p_hide_filled?: boolean
+          p_sort?: string
+          p_cursor_key?: number
+          p_cursor_id?: string
+          p_limit?: number
+          p_as_of?: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          title: string
+          description: string | null
+          form_url: string
+          provider: Database["public"]["Enums"]["form_provider"]
+          external_form_id: string | null
+          tags: string[] | null
+          status: Database["public"]["Enums"]["form_status"]
+          created_at: string
+          expire_at: string | null
+          closed_at: string | null
+          target_responses: number | null
+          eligible_occupations: string[] | null
+          eligible_countries: string[] | null
+          min_age: number | null
+          max_age: number | null
+          estimated_minutes: number | null
+          question_count: number | null
+          author_name: string
+          fill_count: number
+          average_rating: number
+          my_fill_id: string | null
+          my_rating: number | null
+          my_filled_at: string | null
+          sort_key: number
+          title_highlight: string
+          description_highlight: string | null
+        }[]
+      }
+      feed_tag_counts: {
+        Args: {
+          p_statuses?: Database["public"]["Enums"]["form_status"][]
+          p_search?: string
+          p_include_tags?: string[]
+          p_any_tags?: string[]
+          p_exclude_tags?: string[]
+          p_provider?: Database["public"]["Enums"]["form_provider"]
+          p_min_minutes?: number
+          p_max_minutes?: number
+          p_eligible_only?: boolean
+          p_hide_filled?: boolean
+          p_for_you?: boolean
+        }
+        Returns: {
+          tag: string
+          form_count: number
+        }[]
+      }
+      fill_back_forms: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          user_id: string
+          title: string
+          form_url: string
+          provider: Database["public"]["Enums"]["form_provider"]
+          expire_at: string | null
+          eligible_occupations: string[] | null
+          eligible_countries: string[] | null
+          min_age: number | null
+          max_age: number | null
+          estimated_minutes: number | null
+          question_count: number | null
+          author_name: string
+          fills_for_me: number
+          last_filled_for_me_at: string
+        }[]
+      }
+      fill_counts_as_response: {
+        Args: {
+          p_verified: boolean
+          p_has_completion_code: boolean
+          p_return_link_enabled: boolean
+        }
+        Returns: boolean
+      }
+      find_duplicate_forms: {
+        Args: {
+          p_provider: Database["public"]["Enums"]["form_provider"]
+          p_external_form_id: string
+          p_form_url: string
+          p_title: string
+        }
+        Returns: {
+          id: string
+          title: string
+          user_id: string
+          created_at: string
+          expire_at: string | null
+          external_form_id: string | null
+          same_survey: boolean
+        }[]
+      }
+      form_group_key: {
+        Args: {
+          p_form_id: string
+          p_user_id: string
+          p_title: string
+          p_external_form_id: string
+        }
+        Returns: string
+      }
+      form_search_vector: {
+        Args: { title: string; description: string; tags: string[] }
+        Returns: unknown
+      }
+      form_title_key: {
+        Args: { p_title: string }
+        Returns: string
+      }
+      meets_eligibility: {
+        Args: {
+          p_occupations: string[]
+          p_countries: string[]
+          p_min_age: number
+          p_max_age: number
+        }
+        Returns: boolean
+      }
+      minimum_fill_seconds: {
+        Args: { p_estimated_minutes: number; p_question_count: number }
+        Returns: number
+      }
+      open_fill_session: {
+        Args: { p_form_id: string }
+        Returns: {
+          session_id: string
+          return_token: string | null
+          return_key: string | null
+        }[]
+      }
+      purge_deleted_forms: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recommendation_score: {
+        Args: {
+          p_tags: string[]
+          p_poster_id: string
+          p_expire_at: string
+          p_fill_count: number
+          p_target_responses: number
+          p_as_of?: string
+        }
+        Returns: number
+      }
+      verify_form_fill: {
+        Args: { p_fill_id: string; p_code: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      form_provider:
+        | "google"
+        | "microsoft"
+        | "typeform"
+        | "tally"
+        | "surveymonkey"
+        | "qualtrics"
+      form_status: "draft" | "live" | "closed" | "expired" | "archived"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -248,6 +854,16 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      form_provider: [
+        "google",
+        "microsoft",
+        "typeform",
+        "tally",
+        "surveymonkey",
+        "qualtrics",
+      ],
+      form_status: ["draft", "live", "closed", "expired", "archived"],
+    },
   },
 } as const
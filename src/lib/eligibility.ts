@@ -0,0 +1,105 @@
+export interface EligibilityCriteria {
+  eligible_occupations: string[] | null;
+  eligible_countries: string[] | null;
+  min_age: number | null;
+  max_age: number | null;
+}
+
+export interface ParticipantAttributes {
+  occupation: string | null;
+  country: string | null;
+  birthYear: number | null;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  // Criteria the participant definitely fails
+  reasons: string[];
+  // Criteria we can't check because the profile is missing that attribute
+  unknown: string[];
+}
+
+export const OCCUPATION_OPTIONS = [
+  { value: 'student', label: 'Student' },
+  { value: 'employed', label: 'Employed' },
+  { value: 'self-employed', label: 'Self-employed' },
+  { value: 'unemployed', label: 'Unemployed' },
+  { value: 'retired', label: 'Retired' }
+];
+
+export const occupationLabel = (value: string) =>
+  OCCUPATION_OPTIONS.find(option => option.value === value)?.label || value;
+
+const normalizeCountry = (country: string) => country.trim().toLowerCase();
+
+export const parseCountries = (value: string) =>
+  value
+    .split(',')
+    .map(country => country.trim())
+    .filter(Boolean);
+
+export const approximateAge = (birthYear: number | null) =>
+  birthYear ? new Date().getFullYear() - birthYear : null;
+
+export const hasEligibilityCriteria = (criteria: EligibilityCriteria) =>
+  (criteria.eligible_occupations?.length || 0) > 0 ||
+  (criteria.eligible_countries?.length || 0) > 0 ||
+  criteria.min_age !== null ||
+  criteria.max_age !== null;
+
+export const describeEligibility = (criteria: EligibilityCriteria) => {
+  const parts: string[] = [];
+
+  if (criteria.eligible_occupations?.length) {
+    parts.push(criteria.eligible_occupations.map(occupationLabel).join(' or '));
+  }
+  if (criteria.eligible_countries?.length) {
+    parts.push(criteria.eligible_countries.join(', '));
+  }
+  if (criteria.min_age !== null && criteria.max_age !== null) {
+    parts.push(`Ages ${criteria.min_age}–${criteria.max_age}`);
+  } else if (criteria.min_age !== null) {
+    parts.push(`Ages ${criteria.min_age}+`);
+  } else if (criteria.max_age !== null) {
+    parts.push(`Up to age ${criteria.max_age}`);
+  }
+
+  return parts.join(' · ');
+};
+
+export const checkEligibility = (
+  criteria: EligibilityCriteria,
+  participant: ParticipantAttributes
+): EligibilityResult => {
+  const reasons: string[] = [];
+  const unknown: string[] = [];
+
+  if (criteria.eligible_occupations?.length) {
+    if (!participant.occupation) {
+      unknown.push('occupation');
+    } else if (!criteria.eligible_occupations.includes(participant.occupation)) {
+      reasons.push(`Open to ${criteria.eligible_occupations.map(occupationLabel).join(' or ')} only`);
+    }
+  }
+
+  if (criteria.eligible_countries?.length) {
+    if (!participant.country) {
+      unknown.push('country');
+    } else if (!criteria.eligible_countries.map(normalizeCountry).includes(normalizeCountry(participant.country))) {
+      reasons.push(`Open to participants in ${criteria.eligible_countries.join(', ')} only`);
+    }
+  }
+
+  if (criteria.min_age !== null || criteria.max_age !== null) {
+    const age = approximateAge(participant.birthYear);
+    if (age === null) {
+      unknown.push('age');
+    } else if (criteria.min_age !== null && age < criteria.min_age) {
+      reasons.push(`Participants must be at least ${criteria.min_age}`);
+    } else if (criteria.max_age !== null && age > criteria.max_age) {
+      reasons.push(`Participants must be ${criteria.max_age} or younger`);
+    }
+  }
+
+  return { eligible: reasons.length === 0, reasons, unknown };
+};
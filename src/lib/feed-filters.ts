@@ -0,0 +1,92 @@
+import { DURATION_RANGES, DurationRange } from './form-duration';
+import { FORM_PROVIDERS, FormProvider } from './form-providers';
+import { FEED_SORTS, FeedMode, FeedSort } from './feed';
+
+export type TagMatch = 'all' | 'any';
+
+export interface FeedFilters {
+  search: string;
+  mode: FeedMode;
+  sort: FeedSort;
+  // Forms must carry all (or any, per tagMatch) of tags, and none of excludedTags
+  tags: string[];
+  excludedTags: string[];
+  tagMatch: TagMatch;
+  status: 'active' | 'archived';
+  eligibleOnly: boolean;
+  hideFilled: boolean;
+  duration: DurationRange;
+  provider: FormProvider | 'all';
+}
+
+export const DEFAULT_FEED_FILTERS: FeedFilters = {
+  search: '',
+  mode: 'all',
+  sort: 'newest',
+  tags: [],
+  excludedTags: [],
+  tagMatch: 'all',
+  status: 'active',
+  eligibleOnly: false,
+  hideFilled: true,
+  duration: 'any',
+  provider: 'all'
+};
+
+const parseList = (value: string | null) => (value ? value.split(',').map(item => item.trim()).filter(Boolean) : []);
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+// Reads filters from the feed's query string; anything missing or unrecognised falls back to the default
+export const parseFeedFilters = (params: URLSearchParams): FeedFilters => ({
+  search: params.get('q')?.trim() || '',
+  mode: oneOf<FeedMode>(params.get('mode'), ['all', 'for-you'], DEFAULT_FEED_FILTERS.mode),
+  sort: oneOf(params.get('sort'), FEED_SORTS.map(sort => sort.value), DEFAULT_FEED_FILTERS.sort),
+  // Links from before multi-tag filtering used a single tag parameter
+  tags: parseList(params.get('tags') ?? params.get('tag')),
+  excludedTags: parseList(params.get('not')),
+  tagMatch: oneOf<TagMatch>(params.get('match'), ['all', 'any'], DEFAULT_FEED_FILTERS.tagMatch),
+  status: oneOf(params.get('status'), ['active', 'archived'] as const, DEFAULT_FEED_FILTERS.status),
+  eligibleOnly: params.get('eligible') === '1',
+  hideFilled: params.get('filled') !== 'show',
+  duration: oneOf(params.get('length'), DURATION_RANGES.map(range => range.value), DEFAULT_FEED_FILTERS.duration),
+  provider: oneOf<FormProvider | 'all'>(
+    params.get('provider'),
+    ['all', ...(Object.keys(FORM_PROVIDERS) as FormProvider[])],
+    DEFAULT_FEED_FILTERS.provider
+  )
+});
+
+// Only filters that differ from the defaults go into the URL, so the plain feed keeps a clean /feed
+export const feedFiltersToParams = (filters: FeedFilters) => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.mode !== DEFAULT_FEED_FILTERS.mode) params.set('mode', filters.mode);
+  if (filters.sort !== DEFAULT_FEED_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.excludedTags.length > 0) params.set('not', filters.excludedTags.join(','));
+  // Matching only matters once there is more than one tag to match
+  if (filters.tags.length > 1 && filters.tagMatch !== DEFAULT_FEED_FILTERS.tagMatch) params.set('match', filters.tagMatch);
+  if (filters.status !== DEFAULT_FEED_FILTERS.status) params.set('status', filters.status);
+  if (filters.eligibleOnly) params.set('eligible', '1');
+  if (!filters.hideFilled) params.set('filled', 'show');
+  if (filters.duration !== DEFAULT_FEED_FILTERS.duration) params.set('length', filters.duration);
+  if (filters.provider !== DEFAULT_FEED_FILTERS.provider) params.set('provider', filters.provider);
+  return params;
+};
+
+// A readable default name for a saved search, e.g. "psychology, Expiring Soon"
+export const describeFeedFilters = (filters: FeedFilters) => {
+  const parts: string[] = [];
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.mode === 'for-you') parts.push('For You');
+  if (filters.tags.length > 0) parts.push(filters.tags.join(filters.tagMatch === 'any' ? ' or ' : ' & '));
+  if (filters.excludedTags.length > 0) parts.push(`not ${filters.excludedTags.join(', ')}`);
+  if (filters.provider !== 'all') parts.push(FORM_PROVIDERS[filters.provider].label);
+  if (filters.duration !== 'any') parts.push(DURATION_RANGES.find(range => range.value === filters.duration).label);
+  if (filters.sort !== DEFAULT_FEED_FILTERS.sort) parts.push(FEED_SORTS.find(sort => sort.value === filters.sort).label);
+  if (filters.status === 'archived') parts.push('Archived');
+  if (filters.eligibleOnly) parts.push('Eligible');
+  return parts.join(', ');
+};
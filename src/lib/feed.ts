@@ -0,0 +1,36 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type FeedForm = Database['public']['Functions']['feed_page']['Returns'][number];
+
+export const FEED_PAGE_SIZE = 24;
+
+export const FEED_SORTS = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'newest', label: 'Newest First' },
+  { value: 'oldest', label: 'Oldest First' },
+  { value: 'rating', label: 'Highest Rated' },
+  { value: 'expiring', label: 'Expiring Soon' },
+  { value: 'goal', label: 'Closest to Goal' },
+  { value: 'quickest', label: 'Quickest First' }
+] as const;
+
+export type FeedSort = typeof FEED_SORTS[number]['value'];
+
+// "For You" ranks live forms with recommendation_score instead of a user-picked sort
+export type FeedMode = 'all' | 'for-you';
+
+// feed_page orders rows by (sort_key, id) descending; the last row of a page is the cursor for the next.
+// Every page is ranked as of when the first one loaded, so sort keys built from the clock or
+// from fill counts don't shift under the cursor.
+export interface FeedCursor {
+  key: number;
+  id: string;
+  asOf: string;
+}
+
+export const nextFeedCursor = (page: FeedForm[], asOf: string): FeedCursor | null => {
+  if (page.length < FEED_PAGE_SIZE) return null;
+  const last = page[page.length - 1];
+  return { key: last.sort_key, id: last.id, asOf };
+};
+
@@ -0,0 +1,42 @@
+// Forms with a return link get these parameters added to their survey URL each time someone opens them:
+// the signed token, and a key for that fill session only
+export const FILL_TOKEN_PARAM = 'fill_token';
+export const FILL_SESSION_KEY_PARAM = 'fill_key';
+
+// Where the return link carries the session key back
+export const FILL_RETURN_SESSION_KEY_PARAM = 'session_key';
+
+export const FILL_COMPLETE_PATH = '/fill-complete';
+
+// The form's return key rides along in this parameter. Fillers never see it before submitting,
+// so opening the return link by hand with just the token doesn't verify anything.
+export const FILL_RETURN_KEY_PARAM = 'key';
+
+export const generateReturnKey = () => crypto.randomUUID().replace(/-/g, '');
+
+// What posters paste into their survey's after-submit redirect; the survey tool swaps the
+// placeholders for the fill_token and fill_key it received
+export const fillReturnUrl = (returnKey: string) =>
+  `${window.location.origin}${FILL_COMPLETE_PATH}?token={${FILL_TOKEN_PARAM}}` +
+  `&${FILL_RETURN_SESSION_KEY_PARAM}={${FILL_SESSION_KEY_PARAM}}&${FILL_RETURN_KEY_PARAM}=${returnKey}`;
+
+export const withFillToken = (formUrl: string, token: string, sessionKey: string) => {
+  try {
+    const url = new URL(formUrl);
+    url.searchParams.set(FILL_TOKEN_PARAM, token);
+    url.searchParams.set(FILL_SESSION_KEY_PARAM, sessionKey);
+    return url.toString();
+  } catch {
+    return formUrl;
+  }
+};
+
+export type FillCompletionStatus = 'completed' | 'invalid' | 'expired' | 'wrong_user' | 'closed' | 'too_fast';
+
+export const FILL_COMPLETION_ERRORS: Record<Exclude<FillCompletionStatus, 'completed'>, string> = {
+  invalid: "This return link isn't valid. It may have been cut short or edited.",
+  expired: 'This return link has expired. Open the form again from SurvEase to get a fresh one.',
+  wrong_user: 'This return link was issued to a different account. Log in as the person who opened the form.',
+  closed: 'This form stopped accepting responses before your fill could be recorded.',
+  too_fast: "The survey was submitted sooner than it can be filled, so this fill wasn't recorded."
+};
@@ -0,0 +1,20 @@
+// Posters show a completion code on their survey's thank-you page; fills only count once it's entered
+// Long enough not to be guessed within the few attempts fillers get
+export const COMPLETION_CODE_MIN_LENGTH = 8;
+export const COMPLETION_CODE_MAX_LENGTH = 64;
+
+// Codes are optional, so an empty value is fine
+export const validateCompletionCode = (code: string) => {
+  const length = code.trim().length;
+  if (length > 0 && (length < COMPLETION_CODE_MIN_LENGTH || length > COMPLETION_CODE_MAX_LENGTH)) {
+    return `Completion code must be ${COMPLETION_CODE_MIN_LENGTH}-${COMPLETION_CODE_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Same rule as public.fill_counts_as_response: on forms that verify fills, only verified fills
+// count toward responses, ratings and goals
+export const fillCountsAsResponse = (
+  verified: boolean,
+  form: { has_completion_code: boolean; return_link_enabled: boolean }
+) => verified || !(form.has_completion_code || form.return_link_enabled);
@@ -0,0 +1,23 @@
+export const MAX_ESTIMATED_MINUTES = 240;
+
+export const DURATION_RANGES = [
+  { value: 'any', label: 'Any Length', min: null, max: null },
+  { value: 'quick', label: 'Under 5 min', min: null, max: 4 },
+  { value: 'short', label: '5–15 min', min: 5, max: 15 },
+  { value: 'long', label: 'Over 15 min', min: 16, max: null }
+] as const;
+
+export type DurationRange = typeof DURATION_RANGES[number]['value'];
+
+// Bounds for feed_page; forms without an estimate only match "Any Length"
+export const durationBounds = (range: DurationRange) => {
+  const { min, max } = DURATION_RANGES.find(r => r.value === range) || DURATION_RANGES[0];
+  return { p_min_minutes: min ?? undefined, p_max_minutes: max ?? undefined };
+};
+
+export const formatDuration = (estimatedMinutes: number | null, questionCount: number | null) => {
+  const parts: string[] = [];
+  if (estimatedMinutes) parts.push(`~${estimatedMinutes} min`);
+  if (questionCount) parts.push(`${questionCount} question${questionCount !== 1 ? 's' : ''}`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,18 @@
+// Percentage of the response target reached, capped at 100
+export const targetProgress = (fillCount: number, targetResponses: number | null) => {
+  if (!targetResponses) return null;
+  return Math.min(100, Math.round((fillCount / targetResponses) * 100));
+};
+
+export const remainingResponses = (fillCount: number, targetResponses: number | null) =>
+  targetResponses ? Math.max(0, targetResponses - fillCount) : null;
+
+export const parseTargetResponses = (value: string): { target?: number | null; error?: string } => {
+  if (!value.trim()) return { target: null };
+
+  const target = Number(value);
+  if (!Number.isInteger(target) || target < 1) {
+    return { error: 'Target responses must be a whole number greater than zero' };
+  }
+  return { target };
+};
@@ -0,0 +1,130 @@
+import { FormFields } from './form-validation';
+
+export interface ImportRow {
+  // 1-based position in the file, header excluded, so posters can find it
+  line: number;
+  fields: FormFields;
+  tags: string[];
+}
+
+export const IMPORT_COLUMNS = [
+  'title',
+  'description',
+  'url',
+  'tags',
+  'expiry',
+  'estimated_minutes',
+  'question_count',
+  'target_responses'
+];
+
+export const IMPORT_TEMPLATE_CSV = [
+  IMPORT_COLUMNS.join(','),
+  '"Student Sleep Survey","How much do students sleep during exams?",https://tally.so/r/abc123,"academic;health",2026-12-31,5,12,100'
+].join('\n');
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, newlines and "" escapes
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Tags may be a JSON array or a single cell separated by semicolons or commas
+const parseTagList = (value: unknown) =>
+  (Array.isArray(value) ? value.map(asText) : asText(value).split(/[;,]/))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+const parseExpiry = (value: string) => (value.trim() ? new Date(value.trim()) : null);
+
+const toImportRow = (record: Record<string, unknown>, line: number): ImportRow => ({
+  line,
+  tags: parseTagList(record.tags),
+  fields: {
+    title: asText(record.title),
+    description: asText(record.description),
+    url: asText(record.url),
+    expiryDate: parseExpiry(asText(record.expiry)),
+    estimatedMinutes: asText(record.estimated_minutes),
+    questionCount: asText(record.question_count),
+    targetResponses: asText(record.target_responses),
+    minAge: '',
+    maxAge: ''
+  }
+});
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, '_');
+
+export const parseImportFile = (fileName: string, text: string): { rows?: ImportRow[]; error?: string } => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { error: "That JSON file couldn't be read. Check it is a valid array of forms." };
+    }
+    if (!Array.isArray(data)) {
+      return { error: 'The JSON file must contain an array of forms' };
+    }
+    return {
+      rows: data.map((record, index) =>
+        toImportRow(record && typeof record === 'object' ? (record as Record<string, unknown>) : {}, index + 1)
+      )
+    };
+  }
+
+  const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return { error: 'The file is empty' };
+  }
+
+  const columns = header.map(normalizeHeader);
+  if (!columns.includes('title') || !columns.includes('url')) {
+    return { error: `The first row must name the columns: ${IMPORT_COLUMNS.join(', ')}` };
+  }
+
+  return {
+    rows: body.map((cells, index) =>
+      toImportRow(Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])), index + 1)
+    )
+  };
+};
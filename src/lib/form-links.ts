@@ -0,0 +1,9 @@
+export const formDetailPath = (formId: string) => `/forms/${formId}`;
+
+// The public link posters hand out; it works for visitors who aren't logged in yet
+export const formShareUrl = (formId: string) => `${window.location.origin}${formDetailPath(formId)}`;
+
+// Where Login should send someone back to, passed as router state by pages that need an account
+export interface LoginRedirectState {
+  from?: string;
+}
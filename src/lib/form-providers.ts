@@ -0,0 +1,179 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type FormProvider = Enums<'form_provider'>;
+
+export interface ProviderMatch {
+  // Null when the link doesn't reveal the form's ID; duplicates are then matched by URL
+  formId: string | null;
+  canonicalUrl: string;
+}
+
+interface ProviderDefinition {
+  label: string;
+  // Brand colour used for the provider icon
+  color: string;
+  matchesHost: (host: string) => boolean;
+  // Returns the responder link for a URL on this provider's host, or an error for links respondents can't open
+  analyze: (url: URL) => ProviderMatch | { error: string };
+}
+
+const SEND_DIALOG_HINT = 'Copy the link you would send to respondents instead.';
+
+const GOOGLE_PUBLIC_PATH = /^\/forms(?:\/u\/\d+)?\/d\/e\/([A-Za-z0-9_-]{20,})\/([A-Za-z]+)\/?$/;
+const GOOGLE_EDITOR_PATH = /^\/forms(?:\/u\/\d+)?\/d\/([A-Za-z0-9_-]{20,})(?:\/([A-Za-z]+))?\/?$/;
+const GOOGLE_RESPONDER_ACTIONS = ['viewform', 'formResponse'];
+
+export const canonicalGoogleFormUrl = (formId: string) =>
+  `https://docs.google.com/forms/d/e/${formId}/viewform`;
+
+const analyzeGoogleForm = (url: URL): ProviderMatch | { error: string } => {
+  if (url.hostname === 'forms.gle') {
+    const match = url.pathname.match(/^\/([A-Za-z0-9]+)\/?$/);
+    if (!match) {
+      return { error: 'This forms.gle link is incomplete. Copy the full short link from the Send dialog.' };
+    }
+    // The short code isn't the form's ID, and resolving it takes a request Google doesn't allow from the browser
+    return { formId: null, canonicalUrl: `https://forms.gle/${match[1]}` };
+  }
+
+  const publicMatch = url.pathname.match(GOOGLE_PUBLIC_PATH);
+  if (publicMatch) {
+    const [, formId, action] = publicMatch;
+    if (action === 'closedform') {
+      return { error: 'This form is no longer accepting responses' };
+    }
+    if (!GOOGLE_RESPONDER_ACTIONS.includes(action)) {
+      return { error: 'This is not a link respondents can open. Use the link from the Send dialog instead.' };
+    }
+    return { formId, canonicalUrl: canonicalGoogleFormUrl(formId) };
+  }
+
+  const editorMatch = url.pathname.match(GOOGLE_EDITOR_PATH);
+  if (editorMatch) {
+    const action = editorMatch[2];
+    if (action === 'edit' || !action) {
+      return { error: "This is your form's edit link, which respondents can't open. In Google Forms, click Send and copy the link from there." };
+    }
+    if (action === 'preview' || action === 'viewform') {
+      return { error: "This is a preview link, which respondents can't open. In Google Forms, click Send and copy the link from there." };
+    }
+    return { error: "This link only works for the form's owner. In Google Forms, click Send and copy the link from there." };
+  }
+
+  return { error: "That Google link isn't a form. Copy the link from your form's Send dialog." };
+};
+
+const analyzeMicrosoftForm = (url: URL): ProviderMatch | { error: string } => {
+  const shortMatch = url.pathname.match(/^\/(?:r|e)\/([A-Za-z0-9]+)\/?$/);
+  if (shortMatch) {
+    return { formId: shortMatch[1], canonicalUrl: `https://forms.office.com/r/${shortMatch[1]}` };
+  }
+
+  if (/^\/Pages\/ResponsePage\.aspx$/i.test(url.pathname) && url.searchParams.get('id')) {
+    const formId = url.searchParams.get('id');
+    return {
+      formId,
+      canonicalUrl: `https://forms.office.com/Pages/ResponsePage.aspx?id=${encodeURIComponent(formId)}`
+    };
+  }
+
+  if (/^\/Pages\/(DesignPage|DesignPageV2|AnalysisPage)\.aspx$/i.test(url.pathname)) {
+    return { error: `This is your form's design link, which respondents can't open. ${SEND_DIALOG_HINT}` };
+  }
+
+  return { error: `That Microsoft link isn't a form response page. ${SEND_DIALOG_HINT}` };
+};
+
+const analyzeTypeform = (url: URL): ProviderMatch | { error: string } => {
+  if (url.hostname === 'admin.typeform.com') {
+    return { error: `This is your Typeform admin link, which respondents can't open. ${SEND_DIALOG_HINT}` };
+  }
+
+  const match = url.pathname.match(/^\/to\/([A-Za-z0-9]+)\/?$/);
+  if (!match) {
+    return { error: `That Typeform link isn't a form. Links look like yourname.typeform.com/to/abc123.` };
+  }
+  return { formId: match[1], canonicalUrl: `https://${url.hostname}/to/${match[1]}` };
+};
+
+const analyzeTally = (url: URL): ProviderMatch | { error: string } => {
+  const match = url.pathname.match(/^\/r\/([A-Za-z0-9]+)\/?$/);
+  if (match) {
+    return { formId: match[1], canonicalUrl: `https://tally.so/r/${match[1]}` };
+  }
+  if (/^\/forms\//.test(url.pathname)) {
+    return { error: `This is your Tally editor link, which respondents can't open. ${SEND_DIALOG_HINT}` };
+  }
+  return { error: 'That Tally link isn\'t a form. Links look like tally.so/r/abc123.' };
+};
+
+const analyzeSurveyMonkey = (url: URL): ProviderMatch | { error: string } => {
+  const match = url.pathname.match(/^\/r\/([A-Za-z0-9_-]+)\/?$/);
+  if (match) {
+    return { formId: match[1], canonicalUrl: `https://${url.hostname}/r/${match[1]}` };
+  }
+  if (/^\/(create|summary|analyze|collect)\//.test(url.pathname)) {
+    return { error: `This is your SurveyMonkey editor link, which respondents can't open. ${SEND_DIALOG_HINT}` };
+  }
+  return { error: 'That SurveyMonkey link isn\'t a survey. Links look like surveymonkey.com/r/ABC123.' };
+};
+
+const analyzeQualtrics = (url: URL): ProviderMatch | { error: string } => {
+  const match = url.pathname.match(/^\/jfe\/form\/(SV_[A-Za-z0-9]+)\/?$/);
+  if (match) {
+    return { formId: match[1], canonicalUrl: `https://${url.hostname}/jfe/form/${match[1]}` };
+  }
+  if (/survey-builder|\/Q\/EditSection/i.test(url.pathname)) {
+    return { error: `This is your Qualtrics builder link, which respondents can't open. ${SEND_DIALOG_HINT}` };
+  }
+  return { error: 'That Qualtrics link isn\'t a survey. Links look like yourschool.qualtrics.com/jfe/form/SV_abc123.' };
+};
+
+const hostIs = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+export const FORM_PROVIDERS: Record<FormProvider, ProviderDefinition> = {
+  google: {
+    label: 'Google Forms',
+    color: 'bg-purple-600',
+    matchesHost: host => host === 'docs.google.com' || host === 'forms.gle',
+    analyze: analyzeGoogleForm
+  },
+  microsoft: {
+    label: 'Microsoft Forms',
+    color: 'bg-teal-600',
+    matchesHost: host => ['forms.office.com', 'forms.microsoft.com', 'forms.cloud.microsoft'].includes(host),
+    analyze: analyzeMicrosoftForm
+  },
+  typeform: {
+    label: 'Typeform',
+    color: 'bg-gray-900',
+    matchesHost: host => hostIs(host, 'typeform.com'),
+    analyze: analyzeTypeform
+  },
+  tally: {
+    label: 'Tally',
+    color: 'bg-pink-500',
+    matchesHost: host => host === 'tally.so',
+    analyze: analyzeTally
+  },
+  surveymonkey: {
+    label: 'SurveyMonkey',
+    color: 'bg-lime-600',
+    matchesHost: host => /(^|\.)surveymonkey\.(com|co\.uk|ca|de|fr|net)$/.test(host),
+    analyze: analyzeSurveyMonkey
+  },
+  qualtrics: {
+    label: 'Qualtrics',
+    color: 'bg-blue-600',
+    matchesHost: host => hostIs(host, 'qualtrics.com'),
+    analyze: analyzeQualtrics
+  }
+};
+
+export const PROVIDER_OPTIONS = (Object.keys(FORM_PROVIDERS) as FormProvider[]).map(provider => ({
+  value: provider,
+  label: FORM_PROVIDERS[provider].label
+}));
+
+export const detectFormProvider = (host: string): FormProvider | null =>
+  (Object.keys(FORM_PROVIDERS) as FormProvider[]).find(provider => FORM_PROVIDERS[provider].matchesHost(host)) || null;
@@ -0,0 +1,56 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type FormStatus = Enums<'form_status'>;
+
+interface FormStatusFields {
+  expire_at: string | null;
+  status?: FormStatus;
+  closed_at?: string | null;
+  deleted_at?: string | null;
+}
+
+export const FORM_RESTORE_WINDOW_DAYS = 7;
+export const FORM_RENEWAL_DAYS = 30;
+
+export const FORM_STATUS_LABELS: Record<FormStatus, string> = {
+  draft: 'Draft',
+  live: 'Live',
+  closed: 'Closed',
+  expired: 'Expired',
+  archived: 'Archived'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isFormExpired = (form: FormStatusFields) =>
+  form.expire_at ? new Date(form.expire_at) < new Date() : false;
+
+// The lifecycle job runs periodically, so a live form past its expiry date is treated as expired
+export const getFormStatus = (form: FormStatusFields): FormStatus => {
+  const status = form.status || (form.closed_at ? 'closed' : 'live');
+  if (status === 'live' && isFormExpired(form)) return 'expired';
+  return status;
+};
+
+export const isFormClosed = (form: FormStatusFields) => getFormStatus(form) === 'closed';
+
+export const isFormDeleted = (form: FormStatusFields) => !!form.deleted_at;
+
+// Whether the form still accepts fills
+export const isFormOpen = (form: FormStatusFields) =>
+  getFormStatus(form) === 'live' && !isFormDeleted(form);
+
+export const canRenewForm = (form: FormStatusFields) => {
+  const status = getFormStatus(form);
+  return status === 'expired' || status === 'archived';
+};
+
+export const renewalExpiry = () => new Date(Date.now() + FORM_RENEWAL_DAYS * DAY_MS);
+
+export const restoreDeadline = (form: FormStatusFields) =>
+  form.deleted_at ? new Date(new Date(form.deleted_at).getTime() + FORM_RESTORE_WINDOW_DAYS * DAY_MS) : null;
+
+export const canRestoreForm = (form: FormStatusFields) => {
+  const deadline = restoreDeadline(form);
+  return deadline ? deadline > new Date() : false;
+};
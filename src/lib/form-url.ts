@@ -0,0 +1,40 @@
+import { detectFormProvider, FORM_PROVIDERS, FormProvider, PROVIDER_OPTIONS } from './form-providers';
+
+export interface FormUrlAnalysis {
+  provider?: FormProvider;
+  formId?: string | null;
+  canonicalUrl?: string;
+  error?: string;
+}
+
+const fail = (error: string): FormUrlAnalysis => ({ error });
+
+export const analyzeFormUrl = (input: string): FormUrlAnalysis => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return fail('Please enter your form link');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return fail("That doesn't look like a valid link");
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return fail('Form links must start with https://');
+  }
+
+  const provider = detectFormProvider(url.hostname.toLowerCase());
+  if (!provider) {
+    return fail(`Supported providers are ${PROVIDER_OPTIONS.map(option => option.label).join(', ')}`);
+  }
+
+  const result = FORM_PROVIDERS[provider].analyze(url);
+  if ('error' in result) {
+    return fail(result.error);
+  }
+
+  return { provider, ...result };
+};
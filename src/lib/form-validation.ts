@@ -0,0 +1,127 @@
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { analyzeFormUrl, FormUrlAnalysis } from './form-url';
+import { parseTargetResponses } from './form-goals';
+import { MAX_ESTIMATED_MINUTES } from './form-duration';
+
+// Raw field values as typed into PostForm or read from an import file
+export interface FormFields {
+  title: string;
+  description: string;
+  url: string;
+  expiryDate: Date | null;
+  estimatedMinutes: string;
+  questionCount: string;
+  targetResponses: string;
+  minAge: string;
+  maxAge: string;
+}
+
+export interface ValidatedForm {
+  title: string;
+  description: string;
+  urlAnalysis: FormUrlAnalysis;
+  expireAt: string;
+  estimatedMinutes: number;
+  questionCount: number | null;
+  targetResponses: number | null;
+  minAge: number | null;
+  maxAge: number | null;
+}
+
+const REQUIRED_FIELDS: { key: keyof FormFields; label: string }[] = [
+  { key: 'title', label: 'title' },
+  { key: 'description', label: 'description' },
+  { key: 'url', label: 'form URL' },
+  { key: 'expiryDate', label: 'expiry date' },
+  { key: 'estimatedMinutes', label: 'estimated minutes' }
+];
+
+const parseOptionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+// The rules every new form has to pass, whether posted one at a time or imported in bulk
+export const validateFormFields = (fields: FormFields): { form?: ValidatedForm; errors: string[] } => {
+  const missing = REQUIRED_FIELDS.filter(({ key }) => {
+    const value = fields[key];
+    return typeof value === 'string' ? !value.trim() : !value;
+  });
+  if (missing.length > 0) {
+    return { errors: [`Please fill in the ${missing.map(field => field.label).join(', ')}`] };
+  }
+
+  const errors: string[] = [];
+
+  const urlAnalysis = analyzeFormUrl(fields.url);
+  if (urlAnalysis.error) {
+    errors.push(urlAnalysis.error);
+  }
+
+  if (isNaN(fields.expiryDate.getTime())) {
+    errors.push('Expiry date must be a date like 2026-12-31');
+  } else if (fields.expiryDate < new Date()) {
+    errors.push('Expiry date must be in the future');
+  }
+
+  const minutes = Number(fields.estimatedMinutes);
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ESTIMATED_MINUTES) {
+    errors.push(`Estimated time must be between 1 and ${MAX_ESTIMATED_MINUTES} minutes`);
+  }
+
+  const questionCount = parseOptionalNumber(fields.questionCount);
+  if (questionCount !== null && (!Number.isInteger(questionCount) || questionCount < 1)) {
+    errors.push('Question count must be a whole number greater than zero');
+  }
+
+  const { target, error: targetError } = parseTargetResponses(fields.targetResponses);
+  if (targetError) {
+    errors.push(targetError);
+  }
+
+  const minAge = parseOptionalNumber(fields.minAge);
+  const maxAge = parseOptionalNumber(fields.maxAge);
+  if ([minAge, maxAge].some(age => age !== null && (!Number.isInteger(age) || age < 0))) {
+    errors.push('Ages must be whole numbers');
+  } else if (minAge !== null && maxAge !== null && minAge > maxAge) {
+    errors.push('Minimum age cannot be greater than maximum age');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    form: {
+      title: fields.title.trim(),
+      description: fields.description.trim(),
+      urlAnalysis,
+      expireAt: fields.expiryDate.toISOString(),
+      estimatedMinutes: minutes,
+      questionCount,
+      targetResponses: target,
+      minAge,
+      maxAge
+    }
+  };
+};
+
+export const toFormInsert = (
+  userId: string,
+  form: ValidatedForm,
+  tags: string[],
+  extra: Partial<TablesInsert<'forms'>> = {}
+): TablesInsert<'forms'> => ({
+  user_id: userId,
+  title: form.title,
+  description: form.description,
+  form_url: form.urlAnalysis.canonicalUrl,
+  provider: form.urlAnalysis.provider,
+  external_form_id: form.urlAnalysis.formId,
+  tags,
+  expire_at: form.expireAt,
+  estimated_minutes: form.estimatedMinutes,
+  question_count: form.questionCount,
+  target_responses: form.targetResponses,
+  min_age: form.minAge,
+  max_age: form.maxAge,
+  ...extra
+});
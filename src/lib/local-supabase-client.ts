@@ -0,0 +1,9 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+// Used in place of the generated client when VITE_SUPABASE_URL is set (see vite.config.ts),
+// e.g. to develop against a local stack started with `supabase start`
+export const supabase = createClient<Database>(
+  import.meta.env.VITE_SUPABASE_URL,
+  import.meta.env.VITE_SUPABASE_ANON_KEY
+);
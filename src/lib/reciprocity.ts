@@ -0,0 +1,12 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Reciprocity = Tables<'user_reciprocity'>;
+
+// Scores from a couple of supporters swing wildly; only show them once there's a pattern
+export const MIN_SUPPORTERS_FOR_SCORE = 3;
+
+export const hasReciprocityScore = (reciprocity: Reciprocity | null | undefined) =>
+  !!reciprocity && reciprocity.supporter_count >= MIN_SUPPORTERS_FOR_SCORE;
+
+export const describeReciprocity = (reciprocity: Reciprocity) =>
+  `Filled back ${reciprocity.filled_back_count} of ${reciprocity.supporter_count} people who filled their forms`;
@@ -0,0 +1,33 @@
+import { getFormStatus, isFormDeleted, FormStatus } from './form-status';
+
+export const SAVED_EXPIRY_WARNING_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SavedFormFields {
+  expire_at: string | null;
+  status: FormStatus;
+  closed_at: string | null;
+  deleted_at: string | null;
+}
+
+// Why a bookmarked form can't be filled any more, or null if it still can
+export const savedFormUnavailableReason = (form: SavedFormFields | null) => {
+  if (!form || isFormDeleted(form) || form.status === 'draft') return 'Removed by the poster';
+
+  switch (getFormStatus(form)) {
+    case 'closed':
+      return 'Closed to new responses';
+    case 'expired':
+      return 'Expired';
+    case 'archived':
+      return 'Archived';
+    default:
+      return null;
+  }
+};
+
+export const isExpiringSoon = (form: SavedFormFields) =>
+  !savedFormUnavailableReason(form) &&
+  !!form.expire_at &&
+  new Date(form.expire_at).getTime() - Date.now() <= SAVED_EXPIRY_WARNING_DAYS * DAY_MS;
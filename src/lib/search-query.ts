@@ -0,0 +1,46 @@
+export interface ParsedSearch {
+  // Free text for full-text search; supports quoted phrases, "or" and -word
+  text: string;
+  includeTags: string[];
+  excludeTags: string[];
+}
+
+const TAG_OPERATOR = /(^|\s)(-?)tag:(?:"([^"]+)"|(\S+))/gi;
+
+// Pulls tag:name and -tag:name operators out of a search box query
+export const parseSearchQuery = (input: string, normalize: (tag: string) => string = tag => tag): ParsedSearch => {
+  const includeTags: string[] = [];
+  const excludeTags: string[] = [];
+
+  const text = input.replace(TAG_OPERATOR, (_match, leading: string, negated: string, quoted?: string, bare?: string) => {
+    const tag = normalize(quoted || bare);
+    const target = negated ? excludeTags : includeTags;
+    if (tag && !target.includes(tag)) target.push(tag);
+    return leading;
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), includeTags, excludeTags };
+};
+
+// feed_page wraps matched terms in these control characters instead of HTML
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export const splitHighlights = (value: string) => {
+  const segments: { text: string; match: boolean }[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, 'g');
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: value.slice(lastIndex, match.index), match: false });
+    }
+    segments.push({ text: match[1], match: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < value.length) {
+    segments.push({ text: value.slice(lastIndex), match: false });
+  }
+
+  return segments;
+};
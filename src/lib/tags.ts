@@ -0,0 +1,24 @@
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export const normalizeTag = (raw: string, aliases: Record<string, string> = {}) => {
+  const tag = raw.trim().toLowerCase().replace(/\s+/g, ' ');
+  return aliases[tag] || tag;
+};
+
+// Registry tags matching the query, prefix matches first, then by popularity
+export const suggestTags = (query: string, registry: TagUsage[], exclude: string[], limit = 6) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return registry
+    .filter(({ tag }) => tag.includes(needle) && !exclude.includes(tag))
+    .sort((a, b) => {
+      const aPrefix = a.tag.startsWith(needle) ? 0 : 1;
+      const bPrefix = b.tag.startsWith(needle) ? 0 : 1;
+      return aPrefix - bPrefix || b.count - a.count;
+    })
+    .slice(0, limit);
+};
@@ -3,14 +3,22 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
-import { BarChart3, Users, Star, Award, PlusCircle, TrendingUp } from 'lucide-react';
+import { BarChart3, Users, Star, Award, PlusCircle, TrendingUp, Bookmark, Handshake } from 'lucide-react';
 import StatsCard from '@/components/StatsCard';
 import RecentActivity from '@/components/RecentActivity';
+import SavedFormsList from '@/components/SavedFormsList';
+import FillBackList from '@/components/FillBackList';
+import { useSavedForms } from '@/hooks/use-saved-forms';
+import { useReciprocity } from '@/hooks/use-reciprocity';
+import { hasReciprocityScore } from '@/lib/reciprocity';
+import { isExpiringSoon, SAVED_EXPIRY_WARNING_DAYS } from '@/lib/saved-forms';
 import { useNavigate } from 'react-router-dom';
 
 const Dashboard = () => {
   const { user, session } = useAuth();
   const navigate = useNavigate();
+  const { savedForms, removeSaved, refresh: refreshSaved } = useSavedForms();
+  const reciprocity = useReciprocity(session ? [session.user.id] : [])[session?.user.id];
 
   if (!session) {
     return (
@@ -32,6 +40,8 @@ const Dashboard = () => {
     return <div className="flex items-center justify-center min-h-[400px]">Loading...</div>;
   }
 
+  const expiringSaved = savedForms.filter(saved => saved.forms && isExpiringSoon(saved.forms));
+
   const stats = [
     {
       title: 'Forms Posted',
@@ -70,6 +80,41 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Saved forms about to close */}
+      {expiringSaved.length > 0 && (
+        <Card className="border-amber-200 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-slate-800">
+              <Bookmark className="w-5 h-5 text-amber-600" />
+              Saved Forms Expiring Soon
+            </CardTitle>
+            <CardDescription>
+              Bookmarked forms that close within {SAVED_EXPIRY_WARNING_DAYS} days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SavedFormsList savedForms={expiringSaved} onRemove={removeSaved} onFormFilled={refreshSaved} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-slate-200 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-slate-800">
+            <Handshake className="w-5 h-5 text-emerald-600" />
+            Fill Back
+          </CardTitle>
+          <CardDescription>
+            Forms from people who filled yours and are still waiting for you to return the favour
+            {hasReciprocityScore(reciprocity) &&
+              ` · Your fill-back score is ${reciprocity.score}% (${reciprocity.filled_back_count} of ${reciprocity.supporter_count} people)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FillBackList />
+        </CardContent>
+      </Card>
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat, index) => (
@@ -138,7 +183,7 @@ const Dashboard = () => {
             >
               <PlusCircle className="w-8 h-8 text-emerald-600 mb-3" />
               <h3 className="font-semibold text-emerald-900">Post New Form</h3>
-              <p className="text-sm text-emerald-700">Share a Google Form with the community</p>
+              <p className="text-sm text-emerald-700">Share a survey with the community</p>
             </div>
             <div 
               onClick={() => navigate('/feed')}
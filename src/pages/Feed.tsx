@@ -1,150 +1,251 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import FormCard from '@/components/FormCard';
-import { Search, Filter } from 'lucide-react';
+import SavedSearches from '@/components/SavedSearches';
+import TagFilter from '@/components/TagFilter';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search, Archive, Clock, Sparkles, ArrowUp, X } from 'lucide-react';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Form {
-  id: string;
-  title: string;
-  description: string;
-  google_form_url: string;
-  tags: string[];
-  created_at: string;
-  expire_at: string | null;
-  user_id: string;
-  profiles: {
-    name: string;
-  } | null;
-  form_fills: {
-    rating: number;
-  }[];
-}
+import { FormStatus } from '@/lib/form-status';
+import { DURATION_RANGES, DurationRange, durationBounds } from '@/lib/form-duration';
+import { useTagRegistry } from '@/hooks/use-tag-registry';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { useSavedForms } from '@/hooks/use-saved-forms';
+import { useFeedRealtime } from '@/hooks/use-feed-realtime';
+import { useReciprocity } from '@/hooks/use-reciprocity';
+import { SavedSearch, useSavedSearches } from '@/hooks/use-saved-searches';
+import { FormProvider, PROVIDER_OPTIONS } from '@/lib/form-providers';
+import { parseSearchQuery } from '@/lib/search-query';
+import { FEED_PAGE_SIZE, FEED_SORTS, FeedCursor, FeedForm, FeedMode, FeedSort, nextFeedCursor } from '@/lib/feed';
+import { describeFeedFilters, FeedFilters, feedFiltersToParams, parseFeedFilters } from '@/lib/feed-filters';
 
 const Feed = () => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState('newest');
-  const [filterTag, setFilterTag] = useState('all');
-  const [forms, setForms] = useState<Form[]>([]);
+  // Filters live in the query string so filtered views survive a refresh and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseFeedFilters(searchParams);
+  const {
+    search: debouncedSearch,
+    mode: feedMode,
+    sort: sortBy,
+    tags: filterTags,
+    excludedTags,
+    tagMatch,
+    status: statusFilter,
+    eligibleOnly,
+    hideFilled,
+    duration: durationRange,
+    provider: providerFilter
+  } = filters;
+  const [searchTerm, setSearchTerm] = useState(debouncedSearch);
+  const [forms, setForms] = useState<FeedForm[]>([]);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { session } = useAuth();
+  const [tagCounts, setTagCounts] = useState<Record<string, number>>({});
+  // Forms posted since the current results loaded, announced instead of shifting the grid
+  const [newFormIds, setNewFormIds] = useState<string[]>([]);
+  const { session, user } = useAuth();
+  const { tags: tagRegistry, normalize } = useTagRegistry();
+  const { savedIds, toggleSaved } = useSavedForms();
+  const { savedSearches, saveSearch, removeSearch } = useSavedSearches();
+  const authorReciprocity = useReciprocity(forms.map(form => form.user_id));
+  // Ignores responses for filters the user has already changed away from
+  const requestId = useRef(0);
+
+  // Reads the latest params rather than this render's, so quick successive changes don't undo each other
+  const updateFilters = (changes: Partial<FeedFilters>) => {
+    setSearchParams(current => feedFiltersToParams({ ...parseFeedFilters(current), ...changes }), { replace: true });
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(() => updateFilters({ search: searchTerm.trim() }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Keep the search box in step when the URL changes underneath it (back button, saved searches)
+  useEffect(() => {
+    if (debouncedSearch !== searchTerm.trim()) setSearchTerm(debouncedSearch);
+  }, [debouncedSearch]);
+
+  const applySavedSearch = (search: SavedSearch) => {
+    setSearchParams(search.query, { replace: true });
+  };
+
+  // Searches saved before a filter changed shape still apply, and still highlight when active
+  const normalizedSavedSearches = savedSearches.map(search => ({
+    ...search,
+    query: feedFiltersToParams(parseFeedFilters(new URLSearchParams(search.query))).toString()
+  }));
+
+  // Searching switches the default order to best match, and back again when cleared
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    if (value.trim() && sortBy === 'newest') updateFilters({ sort: 'relevance' });
+    if (!value.trim() && sortBy === 'relevance') updateFilters({ sort: 'newest' });
+  };
+
+  const forYou = feedMode === 'for-you' && !!user;
+
+  // Drafts never show; archived forms only on request. For You only recommends forms that
+  // can still be filled, and ignores a status left in the URL from the All tab.
+  const visibleStatuses: FormStatus[] = forYou
+    ? ['live']
+    : statusFilter === 'archived'
+      ? ['archived']
+      : ['live', 'closed', 'expired'];
+  const listOrUndefined = (list: string[]) => (list.length > 0 ? list : undefined);
+
+  // The filters feed_page and feed_tag_counts share. Tags picked in the tag filter combine
+  // with tag: and -tag: terms typed into the search box.
+  const matchArgs = (withAnyTags = true) => {
+    const query = parseSearchQuery(debouncedSearch, normalize);
+    const matchAll = tagMatch === 'all' || filterTags.length === 1;
+
+    return {
+      p_statuses: visibleStatuses,
+      p_search: query.text || undefined,
+      p_include_tags: listOrUndefined([...query.includeTags, ...(matchAll ? filterTags : [])]),
+      p_any_tags: withAnyTags && !matchAll ? listOrUndefined(filterTags) : undefined,
+      p_exclude_tags: listOrUndefined([...query.excludeTags, ...excludedTags]),
+      p_provider: providerFilter === 'all' ? undefined : providerFilter,
+      ...durationBounds(durationRange),
+      // Matched server-side against the signed-in user's own attributes
+      p_eligible_only: eligibleOnly && !!user,
+      p_hide_filled: hideFilled && !!user
+    };
+  };
+
+  const fetchTagCounts = async (request: number) => {
+    // With "any" matching, count against the results before the tag choice so unpicked
+    // tags show how many forms picking them would add
+    const { data, error: countsError } = await supabase.rpc('feed_tag_counts', {
+      ...matchArgs(false),
+      p_for_you: forYou
+    });
+    // The filters changed while the counts were loading; the newer request sets them
+    if (request !== requestId.current) return;
+
+    if (countsError) {
+      console.error('Error fetching tag counts:', countsError);
+      return;
+    }
+
+    setTagCounts(Object.fromEntries((data || []).map(row => [row.tag, row.form_count])));
+  };
+
+  const fetchPage = async (asOf: string, after: FeedCursor | null) => {
+    const query = parseSearchQuery(debouncedSearch, normalize);
+
+    const { data, error: pageError } = await supabase.rpc('feed_page', {
+      ...matchArgs(),
+      // Relevance means nothing without search text
+      p_sort: forYou ? 'for_you' : sortBy === 'relevance' && !query.text ? 'newest' : sortBy,
+      p_cursor_key: after?.key,
+      p_cursor_id: after?.id,
+      p_limit: FEED_PAGE_SIZE,
+      p_as_of: asOf
+    });
+
+    if (pageError) {
+      console.error('Feed page error:', pageError);
+      throw pageError;
+    }
+
+    return data || [];
+  };
 
   const fetchForms = async () => {
+    const request = ++requestId.current;
     try {
       setLoading(true);
       setError(null);
-      console.log('Fetching forms...');
-
-      // First get forms with form_fills
-      const { data: formsData, error: formsError } = await supabase
-        .from('forms')
-        .select(`
-          *,
-          form_fills (rating)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (formsError) {
-        console.error('Forms error:', formsError);
-        throw formsError;
-      }
-
-      console.log('Forms data:', formsData);
-
-      if (!formsData || formsData.length === 0) {
-        console.log('No forms found');
-        setForms([]);
-        return;
-      }
-
-      // Then get profiles for each form's user_id
-      const formsWithProfiles = await Promise.all(
-        formsData.map(async (form) => {
-          try {
-            const { data: profile, error: profileError } = await supabase
-              .from('profiles')
-              .select('name')
-              .eq('id', form.user_id)
-              .maybeSingle();
-
-            if (profileError) {
-              console.warn('Profile error for user', form.user_id, ':', profileError);
-            }
-
-            return {
-              ...form,
-              profiles: profile || { name: 'Unknown User' }
-            };
-          } catch (err) {
-            console.warn('Error fetching profile for form', form.id, ':', err);
-            return {
-              ...form,
-              profiles: { name: 'Unknown User' }
-            };
-          }
-        })
-      );
-
-      console.log('Forms with profiles:', formsWithProfiles);
-      setForms(formsWithProfiles);
+      setNewFormIds([]);
+      fetchTagCounts(request);
+
+      const asOf = new Date().toISOString();
+      const page = await fetchPage(asOf, null);
+      if (request !== requestId.current) return;
+
+      setForms(page);
+      setCursor(nextFeedCursor(page, asOf));
     } catch (error) {
+      if (request !== requestId.current) return;
       console.error('Error fetching forms:', error);
       setError(error instanceof Error ? error.message : 'Failed to load forms');
     } finally {
-      setLoading(false);
+      if (request === requestId.current) setLoading(false);
     }
   };
 
-  useEffect(() => {
-    fetchForms();
-  }, []);
+  const loadMore = async () => {
+    if (!cursor || loading || loadingMore) return;
 
-  const availableTags = ['all', 'survey', 'research', 'feedback', 'academic', 'business', 'personal'];
+    const request = requestId.current;
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(cursor.asOf, cursor);
+      if (request !== requestId.current) return;
 
-  const filteredForms = forms.filter(form => {
-    const matchesSearch = form.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (form.description && form.description.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesTag = filterTag === 'all' || (form.tags && form.tags.includes(filterTag));
-    return matchesSearch && matchesTag;
-  });
+      setForms(current => [...current, ...page.filter(form => !current.some(existing => existing.id === form.id))]);
+      setCursor(nextFeedCursor(page, cursor.asOf));
+    } catch (error) {
+      console.error('Error loading more forms:', error);
+      toast.error('Failed to load more forms');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const refreshStats = async () => {
+    if (forms.length === 0) return;
 
-  const sortedForms = [...filteredForms].sort((a, b) => {
-    switch (sortBy) {
-      case 'oldest':
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      case 'rating':
-        const aRating = a.form_fills.length > 0 ? 
-          a.form_fills.reduce((sum, fill) => sum + fill.rating, 0) / a.form_fills.length : 0;
-        const bRating = b.form_fills.length > 0 ? 
-          b.form_fills.reduce((sum, fill) => sum + fill.rating, 0) / b.form_fills.length : 0;
-        return bRating - aRating;
-      case 'expiring':
-        if (!a.expire_at && !b.expire_at) return 0;
-        if (!a.expire_at) return 1;
-        if (!b.expire_at) return -1;
-        return new Date(a.expire_at).getTime() - new Date(b.expire_at).getTime();
-      default: // newest
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    const { data, error: statsError } = await supabase.rpc('feed_form_stats', {
+      p_form_ids: forms.map(form => form.id),
+      p_statuses: visibleStatuses
+    });
+
+    if (statsError) {
+      console.error('Error refreshing form stats:', statsError);
+      return;
     }
+
+    setForms(current => current.map(form => {
+      const stats = data.find(row => row.id === form.id);
+      return stats ? { ...form, fill_count: stats.fill_count, average_rating: stats.average_rating } : form;
+    }));
+  };
+
+  useFeedRealtime({
+    onFormPublished: (form) => {
+      if (!visibleStatuses.includes('live') || form.user_id === user?.id) return;
+      setNewFormIds(current => (current.includes(form.id) ? current : [...current, form.id]));
+    },
+    onFillsChanged: refreshStats
   });
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600 mx-auto mb-4"></div>
-          <p className="text-slate-600">Loading forms...</p>
-        </div>
-      </div>
-    );
-  }
+  const showNewForms = () => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    fetchForms();
+  };
+
+  const sentinelRef = useInfiniteScroll(loadMore, !!cursor && !loading && !loadingMore);
+
+  // Every filter is in the query string, so its canonical form changes exactly when a refetch is due
+  const filtersKey = feedFiltersToParams(filters).toString();
+
+  useEffect(() => {
+    fetchForms();
+  }, [filtersKey]);
 
   if (error) {
     return (
@@ -183,6 +284,18 @@ const Feed = () => {
         </Button>
       </div>
 
+      {user && (
+        <Tabs value={feedMode} onValueChange={(value) => updateFilters({ mode: value as FeedMode })}>
+          <TabsList>
+            <TabsTrigger value="all">All Forms</TabsTrigger>
+            <TabsTrigger value="for-you" className="flex items-center gap-2">
+              <Sparkles className="w-4 h-4" />
+              For You
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
       {/* Search and Filter Bar */}
       <Card className="border-slate-200 shadow-lg">
         <CardContent className="p-4">
@@ -190,65 +303,197 @@ const Feed = () => {
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
               <Input
-                placeholder="Search forms..."
+                placeholder="Search forms, tags or people... try tag:research -tag:personal"
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10 border-slate-200"
               />
             </div>
-            <Select value={sortBy} onValueChange={setSortBy}>
-              <SelectTrigger className="w-full md:w-48 border-slate-200">
-                <SelectValue placeholder="Sort by" />
+            {feedMode === 'all' && (
+              <Select value={sortBy} onValueChange={(value) => updateFilters({ sort: value as FeedSort })}>
+                <SelectTrigger className="w-full md:w-48 border-slate-200">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEED_SORTS.filter(sort => sort.value !== 'relevance' || searchTerm.trim()).map(sort => (
+                    <SelectItem key={sort.value} value={sort.value}>
+                      {sort.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={durationRange} onValueChange={(value) => updateFilters({ duration: value as DurationRange })}>
+              <SelectTrigger className="w-full md:w-40 border-slate-200">
+                <Clock className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Length" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="newest">Newest First</SelectItem>
-                <SelectItem value="oldest">Oldest First</SelectItem>
-                <SelectItem value="rating">Highest Rated</SelectItem>
-                <SelectItem value="expiring">Expiring Soon</SelectItem>
+                {DURATION_RANGES.map(range => (
+                  <SelectItem key={range.value} value={range.value}>
+                    {range.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            <Select value={filterTag} onValueChange={setFilterTag}>
-              <SelectTrigger className="w-full md:w-48 border-slate-200">
-                <Filter className="w-4 h-4 mr-2" />
-                <SelectValue placeholder="Filter by tag" />
+            <Select value={providerFilter} onValueChange={(value) => updateFilters({ provider: value as FormProvider | 'all' })}>
+              <SelectTrigger className="w-full md:w-44 border-slate-200">
+                <SelectValue placeholder="Provider" />
               </SelectTrigger>
               <SelectContent>
-                {availableTags.map(tag => (
-                  <SelectItem key={tag} value={tag}>
-                    {tag === 'all' ? 'All Tags' : tag}
+                <SelectItem value="all">All Providers</SelectItem>
+                {PROVIDER_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            {feedMode === 'all' && (
+              <Select value={statusFilter} onValueChange={(value) => updateFilters({ status: value as 'active' | 'archived' })}>
+                <SelectTrigger className="w-full md:w-40 border-slate-200">
+                  <Archive className="w-4 h-4 mr-2" />
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <TagFilter
+              allTags={[...new Set([...filterTags, ...excludedTags, ...tagRegistry.map(({ tag }) => tag)])]}
+              counts={tagCounts}
+              tags={filterTags}
+              excludedTags={excludedTags}
+              tagMatch={tagMatch}
+              onChange={updateFilters}
+            />
           </div>
+          {(filterTags.length > 0 || excludedTags.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+              {filterTags.map((tag, index) => (
+                <React.Fragment key={tag}>
+                  {index > 0 && <span className="text-slate-400">{tagMatch === 'any' ? 'or' : 'and'}</span>}
+                  <Badge variant="secondary" className="bg-emerald-100 text-emerald-800 gap-1">
+                    {tag}
+                    <button type="button" onClick={() => updateFilters({ tags: filterTags.filter(t => t !== tag) })}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                </React.Fragment>
+              ))}
+              {excludedTags.map(tag => (
+                <Badge key={tag} variant="secondary" className="bg-red-50 text-red-700 gap-1">
+                  not {tag}
+                  <button type="button" onClick={() => updateFilters({ excludedTags: excludedTags.filter(t => t !== tag) })}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {user && (
+            <div className="flex flex-wrap items-center gap-6 mt-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="eligible-only"
+                  checked={eligibleOnly}
+                  onCheckedChange={(checked) => updateFilters({ eligibleOnly: checked })}
+                />
+                <Label htmlFor="eligible-only" className="text-sm text-slate-600">
+                  Only show forms I'm eligible for
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="hide-filled"
+                  checked={hideFilled}
+                  onCheckedChange={(checked) => updateFilters({ hideFilled: checked })}
+                />
+                <Label htmlFor="hide-filled" className="text-sm text-slate-600">
+                  Hide forms I've filled
+                </Label>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {user && (
+        <SavedSearches
+          savedSearches={normalizedSavedSearches}
+          activeQuery={filtersKey}
+          suggestedName={describeFeedFilters(filters)}
+          onApply={applySavedSearch}
+          onRemove={removeSearch}
+          onSave={(name) => saveSearch(name, filtersKey)}
+        />
+      )}
+
+      {newFormIds.length > 0 && !loading && (
+        <div className="sticky top-4 z-10 flex justify-center">
+          <Button
+            onClick={showNewForms}
+            className="rounded-full shadow-lg bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+          >
+            <ArrowUp className="w-4 h-4 mr-2" />
+            {newFormIds.length} new form{newFormIds.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      )}
+
       {/* Forms Grid */}
-      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {sortedForms.map(form => {
-          const averageRating = form.form_fills.length > 0 ? 
-            form.form_fills.reduce((sum, fill) => sum + fill.rating, 0) / form.form_fills.length : 0;
-          
-          return (
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600 mx-auto mb-4"></div>
+            <p className="text-slate-600">Loading forms...</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {forms.map(form => (
             <FormCard 
               key={form.id}
               id={form.id}
               title={form.title}
               description={form.description || ''}
+              titleHighlight={form.title_highlight}
+              descriptionHighlight={form.description_highlight}
               tags={form.tags || []}
               createdAt={form.created_at}
               expireAt={form.expire_at}
-              googleFormUrl={form.google_form_url}
-              fillCount={form.form_fills.length}
-              averageRating={averageRating}
+              closedAt={form.closed_at}
+              status={form.status}
+              formUrl={form.form_url}
+              provider={form.provider}
+              authorName={form.author_name}
+              authorReciprocity={authorReciprocity[form.user_id]}
+              fillCount={form.fill_count}
+              targetResponses={form.target_responses}
+              eligibility={form}
+              estimatedMinutes={form.estimated_minutes}
+              questionCount={form.question_count}
+              averageRating={form.average_rating}
+              isSaved={savedIds.has(form.id)}
+              onToggleSaved={user ? () => toggleSaved(form.id) : undefined}
+              myFill={form.my_fill_id ? { id: form.my_fill_id, rating: form.my_rating, filledAt: form.my_filled_at } : null}
+              isOwnForm={!!user && form.user_id === user.id}
               onFormFilled={fetchForms}
             />
-          );
-        })}
-      </div>
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} />
+      {loadingMore && (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+        </div>
+      )}
 
-      {sortedForms.length === 0 && !loading && (
+      {forms.length === 0 && !loading && (
         <Card className="border-slate-200 shadow-lg">
           <CardContent className="text-center py-12">
             <p className="text-slate-500 text-lg">No forms found matching your criteria.</p>
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import FormFillModal from '@/components/FormFillModal';
+import { formDetailPath, LoginRedirectState } from '@/lib/form-links';
+import { FILL_COMPLETION_ERRORS, FILL_RETURN_KEY_PARAM, FILL_RETURN_SESSION_KEY_PARAM, FillCompletionStatus } from '@/lib/fill-return-links';
+
+interface CompletedFill {
+  fillId: string;
+  formId: string;
+  title: string;
+  formUrl: string;
+}
+
+// Where a survey's after-submit redirect lands: verifies the signed token, its session's key and the
+// form's return key, then asks for a rating
+const FillComplete = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const returnKey = searchParams.get(FILL_RETURN_KEY_PARAM);
+  const sessionKey = searchParams.get(FILL_RETURN_SESSION_KEY_PARAM);
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [completedFill, setCompletedFill] = useState<CompletedFill | null>(null);
+  const [failure, setFailure] = useState<{ message: string; formId: string | null } | null>(null);
+  const [showRatingModal, setShowRatingModal] = useState(false);
+  // Completing is idempotent, but there's no need to do it twice
+  const attempted = useRef(false);
+
+  const completeFill = async () => {
+    try {
+      const { data, error } = await supabase.rpc('complete_fill_from_token', {
+        p_token: token,
+        p_key: returnKey || '',
+        p_session_key: sessionKey || ''
+      });
+      if (error) throw error;
+
+      const result = data?.[0];
+      const status = (result?.status || 'invalid') as FillCompletionStatus;
+      if (status !== 'completed') {
+        setFailure({ message: FILL_COMPLETION_ERRORS[status], formId: result?.form_id || null });
+        return;
+      }
+
+      const { data: form } = await supabase
+        .from('forms')
+        .select('title, form_url')
+        .eq('id', result.form_id)
+        .maybeSingle();
+
+      setCompletedFill({
+        fillId: result.fill_id,
+        formId: result.form_id,
+        title: form?.title || 'this form',
+        formUrl: form?.form_url || ''
+      });
+      setShowRatingModal(true);
+    } catch (error) {
+      console.error('Error completing fill from return link:', error);
+      setFailure({ message: "We couldn't record your fill. Please try the link again.", formId: null });
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading || attempted.current) return;
+
+    if (!token) {
+      setFailure({ message: FILL_COMPLETION_ERRORS.invalid, formId: null });
+      return;
+    }
+
+    if (!user) {
+      const state: LoginRedirectState = { from: `${location.pathname}${location.search}` };
+      navigate('/login', { state, replace: true });
+      return;
+    }
+
+    attempted.current = true;
+    completeFill();
+  }, [authLoading, user, token]);
+
+  if (failure) {
+    return (
+      <div className="max-w-md mx-auto mt-8">
+        <Card className="border-slate-200 shadow-lg">
+          <CardContent className="text-center py-12">
+            <ShieldAlert className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+            <p className="text-slate-600 text-lg mb-4">We couldn't verify your fill</p>
+            <p className="text-slate-500 mb-6">{failure.message}</p>
+            <div className="flex justify-center gap-3">
+              {failure.formId && (
+                <Button variant="outline" onClick={() => navigate(formDetailPath(failure.formId))}>
+                  View Form
+                </Button>
+              )}
+              <Button
+                onClick={() => navigate('/feed')}
+                className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+              >
+                Browse the Feed
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!completedFill) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Verifying your fill...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto mt-8">
+      <Card className="border-slate-200 shadow-lg">
+        <CardContent className="text-center py-12">
+          <ShieldCheck className="w-12 h-12 text-emerald-600 mx-auto mb-4" />
+          <p className="text-slate-600 text-lg mb-2">Thanks for filling {completedFill.title}!</p>
+          <p className="text-slate-500 mb-6">Your fill is verified and counts toward your points and badges.</p>
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" onClick={() => setShowRatingModal(true)}>
+              Rate This Form
+            </Button>
+            <Button
+              onClick={() => navigate('/feed')}
+              className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+            >
+              Fill Another Form
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <FormFillModal
+        isOpen={showRatingModal}
+        onClose={() => setShowRatingModal(false)}
+        formId={completedFill.formId}
+        formTitle={completedFill.title}
+        formUrl={completedFill.formUrl}
+        existingFillId={completedFill.fillId}
+        onFormFilled={() => {}}
+      />
+    </div>
+  );
+};
+
+export default FillComplete;
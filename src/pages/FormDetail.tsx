@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Calendar, Clock, Copy, ExternalLink, LogIn, MessageCircle, Star, Target, User, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOpenSurvey } from '@/hooks/use-open-survey';
+import FormFillModal from '@/components/FormFillModal';
+import FormProviderIcon from '@/components/FormProviderIcon';
+import { FORM_STATUS_LABELS, getFormStatus, isFormOpen } from '@/lib/form-status';
+import { remainingResponses, targetProgress } from '@/lib/form-goals';
+import { fillCountsAsResponse } from '@/lib/fill-verification';
+import { describeEligibility, hasEligibilityCriteria } from '@/lib/eligibility';
+import { formatDuration } from '@/lib/form-duration';
+import { formDetailPath, formShareUrl, LoginRedirectState } from '@/lib/form-links';
+
+interface FormFill {
+  id: string;
+  rating: number | null;
+  comment: string | null;
+  created_at: string;
+  user_id: string;
+  verified: boolean;
+}
+
+interface FormComment extends FormFill {
+  user_name: string;
+}
+
+const FormDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [form, setForm] = useState<Tables<'forms'> | null>(null);
+  const [authorName, setAuthorName] = useState('');
+  const [fills, setFills] = useState<FormFill[]>([]);
+  const [comments, setComments] = useState<FormComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showFillModal, setShowFillModal] = useState(false);
+  const { user, loading: authLoading } = useAuth();
+  const openSurvey = useOpenSurvey();
+  const navigate = useNavigate();
+
+  const fetchForm = async () => {
+    try {
+      setLoading(true);
+
+      const { data: formData, error: formError } = await supabase
+        .from('forms')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (formError) throw formError;
+
+      if (!formData) {
+        setForm(null);
+        return;
+      }
+
+      const [{ data: author }, { data: fillData, error: fillsError }] = await Promise.all([
+        supabase.from('profiles').select('name').eq('id', formData.user_id).maybeSingle(),
+        supabase
+          .from('form_fills')
+          .select('id, rating, comment, created_at, user_id, verified')
+          .eq('form_id', formData.id)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (fillsError) {
+        console.warn('Error fetching fills for form', formData.id, ':', fillsError);
+      }
+
+      const withComments = (fillData || []).filter(fill => fill.comment?.trim());
+      const { data: commenters } = withComments.length > 0
+        ? await supabase
+            .from('profiles')
+            .select('id, name')
+            .in('id', [...new Set(withComments.map(fill => fill.user_id))])
+        : { data: [] };
+
+      setForm(formData);
+      setAuthorName(author?.name || 'Unknown User');
+      setFills(fillData || []);
+      setComments(withComments.map(fill => ({
+        ...fill,
+        user_name: commenters?.find(profile => profile.id === fill.user_id)?.name || 'Anonymous User'
+      })));
+    } catch (error) {
+      console.error('Error fetching form:', error);
+      toast.error('Failed to load form');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchForm();
+  }, [id]);
+
+  const copyShareLink = () => {
+    navigator.clipboard.writeText(formShareUrl(form.id));
+    toast.success('Link copied to clipboard!');
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Loading form...</div>
+      </div>
+    );
+  }
+
+  const isOwner = !!user && form?.user_id === user.id;
+
+  // Drafts and deleted forms stay private to their poster
+  if (!form || (!isOwner && (form.deleted_at || getFormStatus(form) === 'draft'))) {
+    return (
+      <div className="max-w-md mx-auto mt-8">
+        <Card className="border-slate-200 shadow-lg">
+          <CardContent className="text-center py-12">
+            <p className="text-slate-600 text-lg mb-4">This form isn't available</p>
+            <p className="text-slate-500 mb-4">It may have been deleted or the link may be wrong.</p>
+            <Button
+              onClick={() => navigate('/feed')}
+              className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+            >
+              Browse the Feed
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const formStatus = getFormStatus(form);
+  const myFill = user ? fills.find(fill => fill.user_id === user.id) : undefined;
+  const responses = fills.filter(fill => fillCountsAsResponse(fill.verified, form));
+  const ratings = responses.filter(fill => fill.rating !== null && fill.rating > 0);
+  const averageRating = ratings.length > 0
+    ? ratings.reduce((sum, fill) => sum + fill.rating, 0) / ratings.length
+    : 0;
+  const progress = targetProgress(responses.length, form.target_responses);
+
+  const renderFillAction = () => {
+    if (!user) {
+      const state: LoginRedirectState = { from: formDetailPath(form.id) };
+      return (
+        <Button
+          onClick={() => navigate('/login', { state })}
+          className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+        >
+          <LogIn className="w-4 h-4 mr-2" />
+          Log In to Fill This Form
+        </Button>
+      );
+    }
+
+    if (isOwner) {
+      return (
+        <Button onClick={copyShareLink} className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700">
+          <Copy className="w-4 h-4 mr-2" />
+          Copy Share Link
+        </Button>
+      );
+    }
+
+    return (
+      <Button
+        onClick={() => setShowFillModal(true)}
+        disabled={!isFormOpen(form) && !myFill}
+        variant={myFill ? 'outline' : 'default'}
+        className={`flex-1 ${myFill ? 'border-emerald-200' : 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700'}`}
+      >
+        {myFill ? 'Edit Rating' : 'Fill & Rate Form'}
+      </Button>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card className="border-slate-200 shadow-lg">
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <FormProviderIcon provider={form.provider} />
+                <CardTitle className="text-2xl font-bold text-emerald-600">{form.title}</CardTitle>
+              </div>
+              <CardDescription className="flex items-center gap-2 mt-2">
+                <User className="w-4 h-4" />
+                Posted by {authorName} on {new Date(form.created_at).toLocaleDateString()}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {formStatus !== 'live' && (
+                <Badge variant={formStatus === 'expired' ? 'destructive' : 'secondary'}>
+                  {form.deleted_at ? 'Deleted' : FORM_STATUS_LABELS[formStatus]}
+                </Badge>
+              )}
+              {!isOwner && (
+                <Button variant="ghost" size="icon" onClick={copyShareLink} title="Copy link to this form">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            <p className="text-gray-700 leading-relaxed whitespace-pre-line">
+              {form.description || 'No description provided for this form.'}
+            </p>
+
+            {form.tags && form.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {form.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="bg-emerald-100 text-emerald-800">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-6 text-sm text-gray-600">
+              {(form.estimated_minutes || form.question_count) && (
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  <span>{formatDuration(form.estimated_minutes, form.question_count)}</span>
+                </div>
+              )}
+              {hasEligibilityCriteria(form) && (
+                <div className="flex items-center gap-1">
+                  <Users className="w-4 h-4" />
+                  <span>{describeEligibility(form)}</span>
+                </div>
+              )}
+              {form.expire_at && (
+                <div className="flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  <span className={formStatus === 'expired' ? 'text-red-600' : ''}>
+                    Expires {new Date(form.expire_at).toLocaleDateString()}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="p-4 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  <Star className="w-5 h-5 text-yellow-500" />
+                  <span className="font-semibold">Rating</span>
+                </div>
+                <div className="text-2xl font-bold text-blue-600">
+                  {averageRating > 0 ? averageRating.toFixed(1) : 'N/A'}
+                </div>
+                <div className="text-sm text-blue-700">
+                  {ratings.length} {ratings.length === 1 ? 'rating' : 'ratings'}
+                </div>
+              </div>
+
+              <div className="p-4 bg-gradient-to-br from-emerald-50 to-emerald-100 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  <MessageCircle className="w-5 h-5 text-emerald-500" />
+                  <span className="font-semibold">Responses</span>
+                </div>
+                <div className="text-2xl font-bold text-emerald-600">{responses.length}</div>
+                {progress !== null && (
+                  <div className="space-y-1 mt-1">
+                    <div className="flex items-center justify-between text-xs text-emerald-700">
+                      <span className="flex items-center gap-1">
+                        <Target className="w-3 h-3" />
+                        Goal {form.target_responses}
+                      </span>
+                      <span>
+                        {progress >= 100 ? 'Goal reached' : `${remainingResponses(responses.length, form.target_responses)} to go`}
+                      </span>
+                    </div>
+                    <Progress value={progress} className="h-2" />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {!myFill && !isOwner && isFormOpen(form) && (
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <h4 className="font-semibold text-yellow-800 mb-2">📝 Before You Fill This Form:</h4>
+                <ul className="text-sm text-yellow-700 space-y-1">
+                  <li>• Make sure you have all the necessary information ready</li>
+                  <li>• You'll be redirected to the original survey</li>
+                  <li>• After completing, you can rate and comment on this form</li>
+                  <li>• Your response will be recorded in your activity</li>
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {renderFillAction()}
+              <Button
+                variant="outline"
+                onClick={() => openSurvey(form.id, form.form_url)}
+                className="px-3"
+                title="Open the original survey"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-slate-200 shadow-lg">
+        <CardHeader>
+          <CardTitle>Comments</CardTitle>
+          <CardDescription>What people who filled this form had to say</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {comments.length > 0 ? (
+            <div className="space-y-4">
+              {comments.map(comment => (
+                <div key={comment.id} className="border-b border-slate-100 pb-4 last:border-0 last:pb-0">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{comment.user_name}</span>
+                    <span className="text-slate-500">
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {comment.rating && (
+                    <div className="flex items-center gap-1 mt-1">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <Star
+                          key={star}
+                          className={`w-3 h-3 ${star <= comment.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-gray-700 mt-2">{comment.comment}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-500 text-center py-4">No comments yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {user && !isOwner && (
+        <FormFillModal
+          isOpen={showFillModal}
+          onClose={() => setShowFillModal(false)}
+          formId={form.id}
+          formTitle={form.title}
+          formUrl={form.form_url}
+          eligibility={form}
+          existingFillId={myFill?.id}
+          onFormFilled={fetchForm}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FormDetail;
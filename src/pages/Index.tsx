@@ -12,8 +12,8 @@ const Index = () => {
   const features = [
     {
       icon: <BarChart3 className="w-8 h-8 text-blue-600" />,
-      title: "Share Google Forms",
-      description: "Post your Google Forms with metadata and reach a wider audience"
+      title: "Share Your Surveys",
+      description: "Post Google Forms, Microsoft Forms, Typeform and more with metadata and reach a wider audience"
     },
     {
       icon: <Users className="w-8 h-8 text-purple-600" />,
@@ -41,7 +41,7 @@ const Index = () => {
             Welcome to SurvEase
           </h1>
           <p className="text-xl text-gray-600 mb-8 max-w-2xl mx-auto">
-            The ultimate platform for sharing and discovering Google Forms. 
+            The ultimate platform for sharing and discovering surveys. 
             Connect with a community of survey creators and participants.
           </p>
           {user ? (
@@ -6,6 +6,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Trophy, Medal, Award, TrendingUp, Star, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { fillCountsAsResponse } from '@/lib/fill-verification';
 
 interface TopFiller {
   rank: number;
@@ -32,10 +33,12 @@ const Leaderboard = () => {
     try {
       setLoading(true);
 
-      // Get top form fillers - separate queries to avoid join issues
+      // Get top form fillers - separate queries to avoid join issues.
+      // On forms that verify fills, only verified fills count
       const { data: fillersData, error: fillersError } = await supabase
         .from('form_fills')
-        .select('user_id');
+        .select('user_id, verified, forms!inner(deleted_at, user_id, has_completion_code, return_link_enabled)')
+        .is('forms.deleted_at', null);
 
       if (fillersError) throw fillersError;
 
@@ -44,6 +47,9 @@ const Leaderboard = () => {
       
       fillersData?.forEach(fill => {
         const userId = fill.user_id;
+        // Posters' fills on their own forms never count
+        if (fill.forms.user_id === userId) return;
+        if (!fillCountsAsResponse(fill.verified, fill.forms)) return;
         if (!fillerStats[userId]) {
           fillerStats[userId] = { formsFilled: 0, points: 0, badges: 0 };
         }
@@ -84,7 +90,9 @@ const Leaderboard = () => {
       // Get top form posters
       const { data: postersData, error: postersError } = await supabase
         .from('forms')
-        .select('user_id');
+        .select('user_id')
+        .is('deleted_at', null)
+        .neq('status', 'draft');
 
       if (postersError) throw postersError;
 
@@ -115,7 +123,8 @@ const Leaderboard = () => {
           const { data: userForms } = await supabase
             .from('forms')
             .select('id')
-            .eq('user_id', userId);
+            .eq('user_id', userId)
+            .is('deleted_at', null);
 
           let totalResponses = 0;
           let avgRating = 0;
@@ -123,13 +132,15 @@ const Leaderboard = () => {
           if (userForms && userForms.length > 0) {
             const formIds = userForms.map(f => f.id);
             
-            const { data: responses } = await supabase
+            const { data: fills } = await supabase
               .from('form_fills')
-              .select('rating')
-              .in('form_id', formIds);
+              .select('rating, verified, forms!inner(has_completion_code, return_link_enabled)')
+              .in('form_id', formIds)
+              .neq('user_id', userId);
 
-            totalResponses = responses?.length || 0;
-            const ratingsWithValues = responses?.filter(r => r.rating !== null) || [];
+            const responses = fills?.filter(fill => fillCountsAsResponse(fill.verified, fill.forms)) || [];
+            totalResponses = responses.length;
+            const ratingsWithValues = responses.filter(r => r.rating !== null);
             avgRating = ratingsWithValues.length > 0 
               ? ratingsWithValues.reduce((sum, r) => sum + (r.rating || 0), 0) / ratingsWithValues.length 
               : 0;
@@ -222,7 +233,7 @@ const Leaderboard = () => {
                 Most Active Form Fillers
               </CardTitle>
               <CardDescription>
-                Users ranked by number of forms completed and engagement points
+                Users ranked by counted responses and engagement points
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -5,8 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { LoginRedirectState } from '@/lib/form-links';
 
 const Login = () => {
   const [email, setEmail] = useState('');
@@ -14,14 +15,17 @@ const Login = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { login, user, loading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Pages like a shared form link send visitors here and expect them back afterwards
+  const redirectTo = (location.state as LoginRedirectState | null)?.from || '/dashboard';
 
   // Redirect if already logged in
   useEffect(() => {
     if (user && !loading) {
-      console.log('User already logged in, redirecting to dashboard');
-      navigate('/dashboard', { replace: true });
+      console.log('User already logged in, redirecting to', redirectTo);
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -117,7 +121,8 @@ const Login = () => {
           <div className="mt-4 text-center">
             <span className="text-slate-600">Don't have an account? </span>
             <Link 
-              to="/register" 
+              to="/register"
+              state={location.state}
               className="text-emerald-600 hover:text-emerald-700 font-medium"
             >
               Sign up
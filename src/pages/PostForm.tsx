@@ -8,21 +8,46 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, X, Plus } from 'lucide-react';
+import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import TagInput from '@/components/TagInput';
+import BulkImportForms from '@/components/BulkImportForms';
+import { analyzeFormUrl } from '@/lib/form-url';
+import { PROVIDER_OPTIONS } from '@/lib/form-providers';
+import { FormStatus } from '@/lib/form-status';
+import { OCCUPATION_OPTIONS, parseCountries } from '@/lib/eligibility';
+import { MAX_ESTIMATED_MINUTES } from '@/lib/form-duration';
+import { toFormInsert, validateFormFields, ValidatedForm } from '@/lib/form-validation';
+import { COMPLETION_CODE_MAX_LENGTH, COMPLETION_CODE_MIN_LENGTH, validateCompletionCode } from '@/lib/fill-verification';
+import ReturnLinkSetting from '@/components/ReturnLinkSetting';
+import { generateReturnKey } from '@/lib/fill-return-links';
+import DuplicateFormDialog, { ExistingForm } from '@/components/DuplicateFormDialog';
 
 const PostForm = () => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [formUrl, setFormUrl] = useState('');
   const [tags, setTags] = useState<string[]>([]);
-  const [newTag, setNewTag] = useState('');
   const [expiryDate, setExpiryDate] = useState<Date>();
+  const [targetResponses, setTargetResponses] = useState('');
+  const [completionCode, setCompletionCode] = useState('');
+  const [returnLinkEnabled, setReturnLinkEnabled] = useState(false);
+  const [returnKey] = useState(generateReturnKey);
+  const [estimatedMinutes, setEstimatedMinutes] = useState('');
+  const [questionCount, setQuestionCount] = useState('');
+  const [eligibleOccupations, setEligibleOccupations] = useState<string[]>([]);
+  const [eligibleCountries, setEligibleCountries] = useState('');
+  const [minAge, setMinAge] = useState('');
+  const [maxAge, setMaxAge] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<ExistingForm[]>([]);
+  const [pendingForm, setPendingForm] = useState<ValidatedForm | null>(null);
   const navigate = useNavigate();
   const { session, user } = useAuth();
 
@@ -30,8 +55,10 @@ const PostForm = () => {
   const fillDummyData = () => {
     setTitle('Simple Feedback Form');
     setDescription('A simple form to collect feedback from users about our services');
-    setFormUrl('https://forms.google.com/example-form');
+    setFormUrl('https://docs.google.com/forms/d/e/1FAIpQLSdExampleFormIdForTestingOnly0000000000000/viewform');
     setTags(['feedback', 'survey']);
+    setEstimatedMinutes('5');
+    setQuestionCount('10');
     setExpiryDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)); // 30 days from now
   };
 
@@ -53,15 +80,51 @@ const PostForm = () => {
     );
   }
 
-  const addTag = () => {
-    if (newTag.trim() && !tags.includes(newTag.trim().toLowerCase())) {
-      setTags([...tags, newTag.trim().toLowerCase()]);
-      setNewTag('');
+  const toggleOccupation = (occupation: string) => {
+    setEligibleOccupations(eligibleOccupations.includes(occupation)
+      ? eligibleOccupations.filter(o => o !== occupation)
+      : [...eligibleOccupations, occupation]);
+  };
+
+  const validateFormUrl = () => {
+    if (!formUrl.trim()) {
+      setUrlError(null);
+      return;
     }
+    const analysis = analyzeFormUrl(formUrl);
+    setUrlError(analysis.error || null);
   };
 
-  const removeTag = (tagToRemove: string) => {
-    setTags(tags.filter(tag => tag !== tagToRemove));
+  const validateSubmission = (): ValidatedForm | null => {
+    if (!session?.user) {
+      toast.error('You must be logged in to post a form');
+      return null;
+    }
+
+    const { form, errors } = validateFormFields({
+      title,
+      description,
+      url: formUrl,
+      expiryDate: expiryDate || null,
+      estimatedMinutes,
+      questionCount,
+      targetResponses,
+      minAge,
+      maxAge
+    });
+    if (errors.length > 0) {
+      validateFormUrl();
+      toast.error(errors[0]);
+      return null;
+    }
+
+    const codeError = validateCompletionCode(completionCode);
+    if (codeError) {
+      toast.error(codeError);
+      return null;
+    }
+
+    return form;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -70,39 +133,60 @@ const PostForm = () => {
     console.log('Form submission started');
     console.log('Session:', session);
     console.log('User:', user);
-    
-    if (!title || !description || !formUrl || !expiryDate) {
-      toast.error('Please fill in all required fields');
-      return;
-    }
 
-    if (!session?.user) {
-      toast.error('You must be logged in to post a form');
-      return;
-    }
+    const validated = validateSubmission();
+    if (!validated) return;
 
     setIsSubmitting(true);
     try {
-      console.log('Inserting form with data:', {
-        user_id: session.user.id,
-        title,
-        description,
-        google_form_url: formUrl,
-        tags,
-        expire_at: expiryDate.toISOString()
+      // Look for the same survey (or a near-identical title) among live posts
+      const { data: matches, error: duplicatesError } = await supabase.rpc('find_duplicate_forms', {
+        p_provider: validated.urlAnalysis.provider,
+        p_external_form_id: validated.urlAnalysis.formId,
+        p_form_url: validated.urlAnalysis.canonicalUrl,
+        p_title: validated.title
       });
 
+      if (duplicatesError) {
+        console.warn('Could not check for duplicate forms:', duplicatesError);
+      } else if (matches.length > 0) {
+        setDuplicates(matches);
+        setPendingForm(validated);
+        setIsSubmitting(false);
+        return;
+      }
+    } catch (error) {
+      console.warn('Duplicate check failed:', error);
+    }
+
+    await postForm(validated);
+  };
+
+  // Drafts stay out of the feed, so they skip the duplicate check
+  const handleSaveDraft = async () => {
+    const validated = validateSubmission();
+    if (!validated) return;
+
+    await postForm(validated, 'draft');
+  };
+
+  const postForm = async (validated: ValidatedForm, status: FormStatus = 'live') => {
+    const countries = parseCountries(eligibleCountries);
+    const row = toFormInsert(session.user.id, validated, tags, {
+      eligible_occupations: eligibleOccupations.length > 0 ? eligibleOccupations : null,
+      eligible_countries: countries.length > 0 ? countries : null,
+      return_link_enabled: returnLinkEnabled,
+      status
+    });
+    setIsSubmitting(true);
+    try {
+      console.log('Inserting form with data:', row);
+
       const { data, error } = await supabase
         .from('forms')
-        .insert({
-          user_id: session.user.id,
-          title,
-          description,
-          google_form_url: formUrl,
-          tags,
-          expire_at: expiryDate.toISOString()
-        })
-        .select();
+        .insert(row)
+        .select()
+        .single();
 
       if (error) {
         console.error('Database error:', error);
@@ -110,8 +194,35 @@ const PostForm = () => {
       }
 
       console.log('Form posted successfully:', data);
-      toast.success('Form posted successfully!');
-      navigate('/feed');
+
+      if (completionCode.trim()) {
+        const { error: codeError } = await supabase
+          .from('form_completion_codes')
+          .insert({ form_id: data.id, code: completionCode.trim() });
+
+        if (codeError) {
+          console.error('Error saving completion code:', codeError);
+          toast.error('Your form was posted, but the completion code could not be saved. Add it again by editing the form.');
+        }
+      }
+
+      if (returnLinkEnabled) {
+        const { error: keyError } = await supabase
+          .from('form_return_keys')
+          .insert({ form_id: data.id, key: returnKey });
+
+        if (keyError) {
+          console.error('Error saving return key:', keyError);
+          toast.error('Your form was posted, but its return link could not be saved. Edit the form to get a working one.');
+        }
+      }
+      if (status === 'draft') {
+        toast.success('Draft saved. Publish it from your profile when you are ready.');
+        navigate('/profile');
+      } else {
+        toast.success('Form posted successfully!');
+        navigate('/feed');
+      }
     } catch (error) {
       console.error('Error posting form:', error);
       toast.error(`Failed to post form: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -120,13 +231,43 @@ const PostForm = () => {
     }
   };
 
+  const renewForm = async (form: ExistingForm) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('forms')
+        .update({
+          expire_at: expiryDate.toISOString(),
+          status: 'live',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', form.id)
+        .eq('user_id', session.user.id);
+
+      if (error) throw error;
+
+      toast.success(`Renewed "${form.title}" until ${format(expiryDate, "PPP")}`);
+      navigate('/feed');
+    } catch (error) {
+      console.error('Error renewing form:', error);
+      toast.error(`Failed to renew form: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const closeDuplicateDialog = () => {
+    setDuplicates([]);
+    setPendingForm(null);
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
       <Card className="border-slate-200 shadow-lg">
         <CardHeader>
           <CardTitle className="text-slate-800">Post a New Form</CardTitle>
           <CardDescription>
-            Share your Google Form with the SurvEase community
+            Share your survey with the SurvEase community
           </CardDescription>
           <Button 
             type="button" 
@@ -138,125 +279,259 @@ const PostForm = () => {
           </Button>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="title">Form Title *</Label>
-              <Input
-                id="title"
-                placeholder="Enter a descriptive title for your form"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="border-slate-200"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="description">Description *</Label>
-              <Textarea
-                id="description"
-                placeholder="Describe what your form is about and why people should fill it"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                rows={4}
-                className="border-slate-200"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="formUrl">Google Form URL *</Label>
-              <Input
-                id="formUrl"
-                type="url"
-                placeholder="https://forms.google.com/..."
-                value={formUrl}
-                onChange={(e) => setFormUrl(e.target.value)}
-                className="border-slate-200"
-                required
-              />
-              <p className="text-sm text-slate-500">
-                For testing, any URL starting with https:// will work
-              </p>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Tags</Label>
-              <div className="flex gap-2 mb-2">
-                <Input
-                  placeholder="Add a tag"
-                  value={newTag}
-                  onChange={(e) => setNewTag(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
-                  className="flex-1 border-slate-200"
+          <Tabs defaultValue="single">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="single">Single Form</TabsTrigger>
+              <TabsTrigger value="bulk">Bulk Import</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="single">
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="title">Form Title *</Label>
+                  <Input
+                    id="title"
+                    placeholder="Enter a descriptive title for your form"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    className="border-slate-200"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description *</Label>
+                  <Textarea
+                    id="description"
+                    placeholder="Describe what your form is about and why people should fill it"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={4}
+                    className="border-slate-200"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="formUrl">Form URL *</Label>
+                  <Input
+                    id="formUrl"
+                    type="url"
+                    placeholder="https://docs.google.com/forms/d/e/.../viewform or https://tally.so/r/..."
+                    value={formUrl}
+                    onChange={(e) => {
+                      setFormUrl(e.target.value);
+                      setUrlError(null);
+                    }}
+                    onBlur={validateFormUrl}
+                    className={urlError ? 'border-red-400' : 'border-slate-200'}
+                    required
+                  />
+                  {urlError ? (
+                    <p className="text-sm text-red-600">{urlError}</p>
+                  ) : (
+                    <p className="text-sm text-slate-500">
+                      Use the link you send to respondents. Supported: {PROVIDER_OPTIONS.map(option => option.label).join(', ')}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="estimatedMinutes">Estimated Minutes *</Label>
+                    <Input
+                      id="estimatedMinutes"
+                      type="number"
+                      min={1}
+                      max={MAX_ESTIMATED_MINUTES}
+                      placeholder="e.g. 5"
+                      value={estimatedMinutes}
+                      onChange={(e) => setEstimatedMinutes(e.target.value)}
+                      className="border-slate-200"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="questionCount">Number of Questions</Label>
+                    <Input
+                      id="questionCount"
+                      type="number"
+                      min={1}
+                      placeholder="Optional"
+                      value={questionCount}
+                      onChange={(e) => setQuestionCount(e.target.value)}
+                      className="border-slate-200"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Tags</Label>
+                  <TagInput tags={tags} onChange={setTags} className="border-slate-200" />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Expiry Date *</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start text-left font-normal border-slate-200"
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {expiryDate ? format(expiryDate, "PPP") : "Pick an expiry date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0">
+                      <Calendar
+                        mode="single"
+                        selected={expiryDate}
+                        onSelect={setExpiryDate}
+                        disabled={(date) => date < new Date()}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <p className="text-sm text-slate-500">
+                    When should this form stop accepting responses?
+                  </p>
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Audience</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {OCCUPATION_OPTIONS.map(option => (
+                      <Badge
+                        key={option.value}
+                        variant={eligibleOccupations.includes(option.value) ? 'default' : 'outline'}
+                        onClick={() => toggleOccupation(option.value)}
+                        className={`cursor-pointer ${
+                          eligibleOccupations.includes(option.value)
+                            ? 'bg-emerald-600 hover:bg-emerald-700'
+                            : 'border-slate-200'
+                        }`}
+                      >
+                        {option.label}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Input
+                    placeholder="Countries, comma separated (e.g. Canada, United States)"
+                    value={eligibleCountries}
+                    onChange={(e) => setEligibleCountries(e.target.value)}
+                    className="border-slate-200"
+                  />
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Min age"
+                      value={minAge}
+                      onChange={(e) => setMinAge(e.target.value)}
+                      className="border-slate-200"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Max age"
+                      value={maxAge}
+                      onChange={(e) => setMaxAge(e.target.value)}
+                      className="border-slate-200"
+                    />
+                  </div>
+                  <p className="text-sm text-slate-500">
+                    Optional. Leave blank if anyone can take part. Fillers who don't match are warned before opening your form.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="completionCode">Completion Code</Label>
+                  <Input
+                    id="completionCode"
+                    placeholder="e.g. SLEEP-2026"
+                    value={completionCode}
+                    onChange={(e) => setCompletionCode(e.target.value)}
+                    maxLength={COMPLETION_CODE_MAX_LENGTH}
+                    className="border-slate-200"
+                  />
+                  <p className="text-sm text-slate-500">
+                    Optional but recommended. Show this code on your survey's confirmation page. Fillers enter it to prove they finished, and only verified fills earn points and badges. Use at least {COMPLETION_CODE_MIN_LENGTH} characters that aren't easy to guess.
+                  </p>
+                </div>
+
+                <ReturnLinkSetting
+                  id="returnLinkEnabled"
+                  enabled={returnLinkEnabled}
+                  onChange={setReturnLinkEnabled}
+                  returnKey={returnKey}
                 />
-                <Button type="button" onClick={addTag} variant="outline" size="sm" className="border-slate-200">
-                  <Plus className="w-4 h-4" />
-                </Button>
-              </div>
-              <div className="flex flex-wrap gap-2">
-                {tags.map(tag => (
-                  <Badge key={tag} variant="secondary" className="flex items-center gap-1 bg-emerald-100 text-emerald-800">
-                    {tag}
-                    <button
-                      type="button"
-                      onClick={() => removeTag(tag)}
-                      className="ml-1 hover:text-red-600"
-                    >
-                      <X className="w-3 h-3" />
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Expiry Date *</Label>
-              <Popover>
-                <PopoverTrigger asChild>
+
+                <div className="space-y-2">
+                  <Label htmlFor="targetResponses">Target Responses</Label>
+                  <Input
+                    id="targetResponses"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="e.g. 100"
+                    value={targetResponses}
+                    onChange={(e) => setTargetResponses(e.target.value)}
+                    className="border-slate-200"
+                  />
+                  <p className="text-sm text-slate-500">
+                    Optional. Your form closes automatically once it reaches this many responses.
+                  </p>
+                </div>
+
+                <div className="flex gap-4">
                   <Button
+                    type="button"
                     variant="outline"
-                    className="w-full justify-start text-left font-normal border-slate-200"
+                    onClick={() => navigate('/feed')}
+                    className="flex-1 border-slate-200"
                   >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {expiryDate ? format(expiryDate, "PPP") : "Pick an expiry date"}
+                    Cancel
                   </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0">
-                  <Calendar
-                    mode="single"
-                    selected={expiryDate}
-                    onSelect={setExpiryDate}
-                    disabled={(date) => date < new Date()}
-                    initialFocus
-                  />
-                </PopoverContent>
-              </Popover>
-              <p className="text-sm text-slate-500">
-                When should this form stop accepting responses?
-              </p>
-            </div>
-
-            <div className="flex gap-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => navigate('/feed')}
-                className="flex-1 border-slate-200"
-              >
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isSubmitting}
-                className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
-              >
-                {isSubmitting ? 'Posting...' : 'Post Form'}
-              </Button>
-            </div>
-          </form>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSaveDraft}
+                    disabled={isSubmitting}
+                    className="flex-1 border-slate-200"
+                  >
+                    Save as Draft
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+                  >
+                    {isSubmitting ? 'Posting...' : 'Post Form'}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="bulk">
+              <BulkImportForms />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
+
+      <DuplicateFormDialog
+        isOpen={duplicates.length > 0}
+        onClose={closeDuplicateDialog}
+        duplicates={duplicates}
+        currentUserId={session.user.id}
+        isSubmitting={isSubmitting}
+        onRenew={renewForm}
+        onPostAnyway={() => {
+          const validated = pendingForm;
+          closeDuplicateDialog();
+          if (validated) postForm(validated);
+        }}
+      />
     </div>
   );
 };
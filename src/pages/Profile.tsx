@@ -5,15 +5,19 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
-import { Mail, Edit, FileText, BarChart3, Star, Award } from 'lucide-react';
+import { Mail, Edit, FileText, BarChart3, Star, Award, Bookmark } from 'lucide-react';
 import PostedForms from '@/components/PostedForms';
 import RecentActivity from '@/components/RecentActivity';
 import EditProfileModal from '@/components/EditProfileModal';
+import SavedFormsList from '@/components/SavedFormsList';
+import { useSavedForms } from '@/hooks/use-saved-forms';
 import { supabase } from '@/integrations/supabase/client';
 
 interface UserStats {
   formsPosted: number;
   formsFilled: number;
+  // Fills confirmed with a completion code; only these earn badges
+  verifiedFills: number;
   totalRatings: number;
   badges: string[];
 }
@@ -24,10 +28,12 @@ const Profile = () => {
   const [userStats, setUserStats] = useState<UserStats>({
     formsPosted: 0,
     formsFilled: 0,
+    verifiedFills: 0,
     totalRatings: 0,
     badges: []
   });
   const [loading, setLoading] = useState(true);
+  const { savedForms, loading: savedLoading, removeSaved } = useSavedForms();
 
   const fetchUserStats = async () => {
     if (!session?.user) return;
@@ -46,7 +52,7 @@ const Profile = () => {
       // Get forms filled by user
       const { data: filledForms, error: fillsError } = await supabase
         .from('form_fills')
-        .select('id, rating')
+        .select('id, rating, verified')
         .eq('user_id', session.user.id);
 
       if (fillsError) throw fillsError;
@@ -64,6 +70,7 @@ const Profile = () => {
       setUserStats({
         formsPosted: postedForms?.length || 0,
         formsFilled: filledForms?.length || 0,
+        verifiedFills: filledForms?.filter(fill => fill.verified).length || 0,
         totalRatings: ratingsGiven,
         badges: badges?.map(b => b.badge_name) || []
       });
@@ -80,11 +87,11 @@ const Profile = () => {
   }, [session]);
 
   const getBadgeProgress = () => {
-    const { formsPosted, formsFilled } = userStats;
+    const { formsPosted, verifiedFills } = userStats;
     
-    if (formsFilled < 1) return "Fill your first form to earn the 'First Form Filled' badge!";
-    if (formsFilled < 5) return `Fill ${5 - formsFilled} more forms to earn the 'Form Enthusiast' badge!`;
-    if (formsFilled < 10) return `Fill ${10 - formsFilled} more forms to earn the 'Form Master' badge!`;
+    if (verifiedFills < 1) return "Fill and verify your first form to earn the 'First Form Filled' badge!";
+    if (verifiedFills < 5) return `Verify ${5 - verifiedFills} more fills to earn the 'Form Enthusiast' badge!`;
+    if (verifiedFills < 10) return `Verify ${10 - verifiedFills} more fills to earn the 'Form Master' badge!`;
     if (formsPosted < 1) return "Post your first form to earn the 'Form Creator' badge!";
     
     return "You're doing great! Keep engaging with forms to earn more badges.";
@@ -169,11 +176,15 @@ const Profile = () => {
 
       {/* Tabs for different sections */}
       <Tabs defaultValue="posted" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="posted" className="flex items-center gap-2">
             <FileText className="w-4 h-4" />
             Posted Forms
           </TabsTrigger>
+          <TabsTrigger value="saved" className="flex items-center gap-2">
+            <Bookmark className="w-4 h-4" />
+            Saved
+          </TabsTrigger>
           <TabsTrigger value="activity" className="flex items-center gap-2">
             <BarChart3 className="w-4 h-4" />
             Recent Activity
@@ -205,6 +216,27 @@ const Profile = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="saved" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bookmark className="w-5 h-5" />
+                Saved Forms
+              </CardTitle>
+              <CardDescription>Forms you bookmarked to fill later</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {savedLoading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+                </div>
+              ) : (
+                <SavedFormsList savedForms={savedForms} onRemove={removeSaved} onFormFilled={fetchUserStats} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="activity" className="mt-6">
           <Card>
             <CardHeader>
@@ -270,6 +302,7 @@ const Profile = () => {
                   <FileText className="w-8 h-8 text-blue-600 mx-auto mb-2" />
                   <div className="text-2xl font-bold text-blue-600">{userStats.formsFilled}</div>
                   <div className="text-sm text-blue-700">Total Forms Filled</div>
+                  <div className="text-xs text-blue-600 mt-1">{userStats.verifiedFills} verified</div>
                 </div>
                 <div className="text-center p-4 bg-gradient-to-br from-emerald-50 to-emerald-100 rounded-lg">
                   <BarChart3 className="w-8 h-8 text-emerald-600 mx-auto mb-2" />
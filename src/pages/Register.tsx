@@ -5,8 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { LoginRedirectState } from '@/lib/form-links';
 
 const Register = () => {
   const [name, setName] = useState('');
@@ -16,14 +17,17 @@ const Register = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { register, user, loading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Carried over from Login so signing up from a shared form link lands back on it
+  const redirectTo = (location.state as LoginRedirectState | null)?.from || '/dashboard';
 
   // Redirect if already logged in
   useEffect(() => {
     if (user && !loading) {
-      console.log('User already logged in, redirecting to dashboard');
-      navigate('/dashboard', { replace: true });
+      console.log('User already logged in, redirecting to', redirectTo);
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -153,7 +157,8 @@ const Register = () => {
           <div className="mt-4 text-center">
             <span className="text-slate-600">Already have an account? </span>
             <Link 
-              to="/login" 
+              to="/login"
+              state={location.state}
               className="text-emerald-600 hover:text-emerald-700 font-medium"
             >
               Sign in
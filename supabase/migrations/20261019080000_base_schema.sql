@@ -0,0 +1,99 @@
+-- The schema the app started from, so a fresh database (`supabase start`,
+-- `supabase db reset`) can apply every later migration. Databases that
+-- already have these tables are left untouched.
+do $$
+begin
+  if to_regclass('public.forms') is not null then
+    return;
+  end if;
+
+  create table public.profiles (
+    id uuid primary key references auth.users (id) on delete cascade,
+    name text not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+  );
+
+  alter table public.profiles enable row level security;
+
+  create policy "Anyone can view profiles"
+    on public.profiles for select
+    using (true);
+
+  create policy "Users can create their own profile"
+    on public.profiles for insert
+    with check (auth.uid() = id);
+
+  create policy "Users can update their own profile"
+    on public.profiles for update
+    using (auth.uid() = id)
+    with check (auth.uid() = id);
+
+  create table public.forms (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    title text not null,
+    description text,
+    google_form_url text not null,
+    tags text[],
+    qr_code text,
+    expire_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+  );
+
+  alter table public.forms enable row level security;
+
+  create policy "Anyone can view forms"
+    on public.forms for select
+    using (true);
+
+  create policy "Users can post their own forms"
+    on public.forms for insert
+    with check (auth.uid() = user_id);
+
+  create policy "Users can update their own forms"
+    on public.forms for update
+    using (auth.uid() = user_id);
+
+  create policy "Users can delete their own forms"
+    on public.forms for delete
+    using (auth.uid() = user_id);
+
+  create table public.form_fills (
+    id uuid primary key default gen_random_uuid(),
+    form_id uuid not null references public.forms (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    rating integer check (rating between 1 and 5),
+    comment text,
+    created_at timestamptz not null default now()
+  );
+
+  create index form_fills_form_id_idx on public.form_fills (form_id);
+  create index form_fills_user_id_idx on public.form_fills (user_id);
+
+  alter table public.form_fills enable row level security;
+
+  create policy "Anyone can view form fills"
+    on public.form_fills for select
+    using (true);
+
+  create policy "Users can fill forms as themselves"
+    on public.form_fills for insert
+    with check (auth.uid() = user_id);
+
+  create table public.user_badges (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    badge_name text not null,
+    earned_at timestamptz not null default now(),
+    unique (user_id, badge_name)
+  );
+
+  alter table public.user_badges enable row level security;
+
+  create policy "Anyone can view badges"
+    on public.user_badges for select
+    using (true);
+end;
+$$;
@@ -0,0 +1,12 @@
+-- Canonical Google form ID (or forms.gle short code) extracted from google_form_url.
+-- Used to detect the same survey being posted more than once.
+alter table public.forms add column if not exists external_form_id text;
+
+update public.forms
+set external_form_id = coalesce(
+  substring(google_form_url from '/forms/(?:u/[0-9]+/)?d/e/([A-Za-z0-9_-]+)'),
+  substring(google_form_url from 'forms\.gle/([A-Za-z0-9]+)')
+)
+where external_form_id is null;
+
+create index if not exists forms_external_form_id_idx on public.forms (external_form_id);
@@ -0,0 +1,62 @@
+-- Posters can close a form early or soft delete it. Deleted forms stay restorable
+-- for seven days before purge_deleted_forms() removes them for good.
+alter table public.forms add column if not exists closed_at timestamptz;
+alter table public.forms add column if not exists deleted_at timestamptz;
+
+create index if not exists forms_deleted_at_idx on public.forms (deleted_at);
+
+drop policy if exists "Users can update their own forms" on public.forms;
+create policy "Users can update their own forms"
+  on public.forms for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own forms" on public.forms;
+create policy "Users can delete their own forms"
+  on public.forms for delete
+  using (auth.uid() = user_id);
+
+-- Closed or deleted forms no longer accept fills
+create or replace function public.reject_fills_on_inactive_forms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.forms
+    where id = new.form_id
+      and (closed_at is not null or deleted_at is not null)
+  ) then
+    raise exception 'This form is no longer accepting responses';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_reject_inactive_forms on public.form_fills;
+create trigger form_fills_reject_inactive_forms
+  before insert on public.form_fills
+  for each row execute function public.reject_fills_on_inactive_forms();
+
+create or replace function public.purge_deleted_forms()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged integer;
+begin
+  delete from public.form_fills
+  where form_id in (
+    select id from public.forms
+    where deleted_at < now() - interval '7 days'
+  );
+
+  delete from public.forms
+  where deleted_at < now() - interval '7 days';
+
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
@@ -0,0 +1,77 @@
+-- Form lifecycle: draft -> live -> closed/expired -> archived.
+-- advance_form_lifecycle() moves forms along; it runs every 15 minutes through
+-- pg_cron where available, and can be run by hand against any Postgres:
+--   psql "$DATABASE_URL" -c 'select public.advance_form_lifecycle();'
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'form_status') then
+    create type public.form_status as enum ('draft', 'live', 'closed', 'expired', 'archived');
+  end if;
+end;
+$$;
+
+alter table public.forms add column if not exists status public.form_status not null default 'live';
+alter table public.forms add column if not exists archived_at timestamptz;
+
+create index if not exists forms_status_idx on public.forms (status);
+
+update public.forms set status = 'closed' where closed_at is not null and status = 'live';
+update public.forms set status = 'expired' where expire_at < now() and status = 'live';
+
+create or replace function public.advance_form_lifecycle()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expired_count integer;
+  archived_count integer;
+begin
+  update public.forms
+  set status = 'expired', updated_at = now()
+  where status = 'live'
+    and expire_at < now();
+  get diagnostics expired_count = row_count;
+
+  -- Closed and expired forms are archived after 30 days
+  update public.forms
+  set status = 'archived', archived_at = now(), updated_at = now()
+  where status in ('closed', 'expired')
+    and coalesce(closed_at, expire_at, updated_at) < now() - interval '30 days';
+  get diagnostics archived_count = row_count;
+
+  perform public.purge_deleted_forms();
+
+  return expired_count + archived_count;
+end;
+$$;
+
+-- Only live forms accept fills
+create or replace function public.reject_fills_on_inactive_forms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.forms
+    where id = new.form_id
+      and (status <> 'live' or expire_at < now() or deleted_at is not null)
+  ) then
+    raise exception 'This form is no longer accepting responses';
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'advance-form-lifecycle',
+      '*/15 * * * *',
+      'select public.advance_form_lifecycle()'
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Optional sample size goal. Forms close automatically once they reach it.
+alter table public.forms add column if not exists target_responses integer
+  check (target_responses is null or target_responses > 0);
+
+create or replace function public.close_forms_at_target()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.forms
+  set status = 'closed', closed_at = now(), updated_at = now()
+  where id = new.form_id
+    and status = 'live'
+    and target_responses is not null
+    and (select count(*) from public.form_fills where form_id = new.form_id) >= target_responses;
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_close_forms_at_target on public.form_fills;
+create trigger form_fills_close_forms_at_target
+  after insert on public.form_fills
+  for each row execute function public.close_forms_at_target();
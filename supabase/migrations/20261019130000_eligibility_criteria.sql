@@ -0,0 +1,14 @@
+-- Audience criteria on forms, and the matching participant attributes on profiles.
+-- Null or empty criteria mean anyone can take part.
+alter table public.forms add column if not exists eligible_occupations text[];
+alter table public.forms add column if not exists eligible_countries text[];
+alter table public.forms add column if not exists min_age integer check (min_age is null or min_age >= 0);
+alter table public.forms add column if not exists max_age integer check (max_age is null or max_age >= 0);
+alter table public.forms drop constraint if exists forms_age_range_check;
+alter table public.forms add constraint forms_age_range_check
+  check (min_age is null or max_age is null or min_age <= max_age);
+
+alter table public.profiles add column if not exists occupation text;
+alter table public.profiles add column if not exists country text;
+alter table public.profiles add column if not exists birth_year integer
+  check (birth_year is null or birth_year between 1900 and 2100);
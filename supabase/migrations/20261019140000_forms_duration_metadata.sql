@@ -0,0 +1,7 @@
+-- How long a form takes to fill, as estimated by the poster
+alter table public.forms add column if not exists estimated_minutes integer
+  check (estimated_minutes is null or estimated_minutes between 1 and 240);
+alter table public.forms add column if not exists question_count integer
+  check (question_count is null or question_count > 0);
+
+create index if not exists forms_estimated_minutes_idx on public.forms (estimated_minutes);
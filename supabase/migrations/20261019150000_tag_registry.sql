@@ -0,0 +1,75 @@
+-- Tag registry: aliases fold common variants into one canonical tag, and
+-- tag_usage counts how often each canonical tag is used on visible forms.
+create table if not exists public.tag_aliases (
+  alias text primary key,
+  tag text not null,
+  created_at timestamptz not null default now(),
+  check (alias <> tag)
+);
+
+alter table public.tag_aliases enable row level security;
+
+drop policy if exists "Anyone can view tag aliases" on public.tag_aliases;
+create policy "Anyone can view tag aliases"
+  on public.tag_aliases for select
+  using (true);
+
+insert into public.tag_aliases (alias, tag) values
+  ('uni', 'academic'),
+  ('university', 'academic'),
+  ('college', 'academic'),
+  ('school', 'academic'),
+  ('thesis', 'research'),
+  ('study', 'research'),
+  ('dissertation', 'research'),
+  ('psych', 'psychology'),
+  ('biz', 'business'),
+  ('marketing-research', 'business'),
+  ('opinion', 'survey'),
+  ('poll', 'survey'),
+  ('health', 'healthcare'),
+  ('medical', 'healthcare'),
+  ('tech', 'technology')
+on conflict (alias) do nothing;
+
+create or replace function public.canonical_tags(raw_tags text[])
+returns text[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(distinct canonical order by canonical), '{}')
+  from (
+    select coalesce(a.tag, t.tag) as canonical
+    from unnest(raw_tags) as t(tag)
+    left join public.tag_aliases a on a.alias = t.tag
+  ) mapped;
+$$;
+
+create or replace function public.canonicalize_form_tags()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.tags is not null then
+    new.tags := public.canonical_tags(
+      array(select lower(trim(tag)) from unnest(new.tags) as tag where trim(tag) <> '')
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists forms_canonicalize_tags on public.forms;
+create trigger forms_canonicalize_tags
+  before insert or update of tags on public.forms
+  for each row execute function public.canonicalize_form_tags();
+
+-- Fold aliases already stored on existing forms
+update public.forms set tags = tags where tags is not null;
+
+create or replace view public.tag_usage as
+  select tag, count(*)::integer as usage_count
+  from public.forms, unnest(forms.tags) as tag
+  where forms.deleted_at is null
+    and forms.status <> 'draft'
+  group by tag;
@@ -0,0 +1,24 @@
+-- Forms can come from any supported survey provider, not just Google Forms
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'form_provider') then
+    create type public.form_provider as enum ('google', 'microsoft', 'typeform', 'tally', 'surveymonkey', 'qualtrics');
+  end if;
+end;
+$$;
+
+alter table public.forms rename column google_form_url to form_url;
+
+alter table public.forms add column if not exists provider public.form_provider not null default 'google';
+
+update public.forms
+set provider = case
+  when form_url ~* '^(https?://)?(forms\.office\.com|forms\.microsoft\.com|forms\.cloud\.microsoft)/' then 'microsoft'::public.form_provider
+  when form_url ~* '^(https?://)?([a-z0-9-]+\.)?typeform\.com/' then 'typeform'::public.form_provider
+  when form_url ~* '^(https?://)?tally\.so/' then 'tally'::public.form_provider
+  when form_url ~* '^(https?://)?([a-z0-9-]+\.)?surveymonkey\.[a-z.]+/' then 'surveymonkey'::public.form_provider
+  when form_url ~* '^(https?://)?([a-z0-9-]+\.)?qualtrics\.com/' then 'qualtrics'::public.form_provider
+  else 'google'::public.form_provider
+end;
+
+create index if not exists forms_provider_idx on public.forms (provider);
@@ -0,0 +1,160 @@
+-- One page of the feed in a single query: filters, sorting, duplicate
+-- collapsing, author names and fill stats all happen here so results stay
+-- consistent across pages. Pages are keyset-paginated on (sort_key, id);
+-- pass the last row's sort_key and id to get the next page.
+create index if not exists forms_feed_created_idx
+  on public.forms (created_at desc, id desc)
+  where deleted_at is null;
+
+create index if not exists form_fills_form_id_idx on public.form_fills (form_id);
+
+create or replace function public.feed_page(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_tag text default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_sort text default 'newest',
+  p_cursor_key double precision default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  sort_key double precision
+)
+language sql
+stable
+as $$
+  with visible as (
+    select
+      f.*,
+      -- Reposts of the same survey share a group: same external form ID, or
+      -- the same poster reusing the same title
+      coalesce(
+        f.external_form_id,
+        f.user_id::text || ':' || trim(regexp_replace(lower(f.title), '[^a-z0-9]+', ' ', 'g'))
+      ) as group_key,
+      stats.fill_count,
+      stats.rating_sum
+    from public.forms f
+    left join lateral (
+      select count(*)::integer as fill_count, coalesce(sum(ff.rating), 0)::double precision as rating_sum
+      from public.form_fills ff
+      where ff.form_id = f.id
+    ) stats on true
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+  ),
+  collapsed as (
+    select
+      v.*,
+      row_number() over (partition by v.group_key order by v.created_at desc, v.id desc) as group_rank,
+      sum(v.fill_count) over (partition by v.group_key)::integer as group_fill_count,
+      sum(v.rating_sum) over (partition by v.group_key) as group_rating_sum
+    from visible v
+  ),
+  ranked as (
+    select
+      c.*,
+      case when c.group_fill_count > 0 then c.group_rating_sum / c.group_fill_count else 0 end as group_average_rating
+    from collapsed c
+    where c.group_rank = 1
+      and (
+        p_search is null
+        or c.title ilike '%' || p_search || '%'
+        or c.description ilike '%' || p_search || '%'
+      )
+      and (p_tag is null or p_tag = any(c.tags))
+      and (p_provider is null or c.provider = p_provider)
+      and (p_min_minutes is null or c.estimated_minutes >= p_min_minutes)
+      and (p_max_minutes is null or c.estimated_minutes <= p_max_minutes)
+      -- Eligibility: a missing participant attribute never excludes a form
+      and (
+        p_occupation is null
+        or coalesce(cardinality(c.eligible_occupations), 0) = 0
+        or p_occupation = any(c.eligible_occupations)
+      )
+      and (
+        p_country is null
+        or coalesce(cardinality(c.eligible_countries), 0) = 0
+        or lower(trim(p_country)) in (select lower(trim(country)) from unnest(c.eligible_countries) as country)
+      )
+      and (p_age is null or c.min_age is null or p_age >= c.min_age)
+      and (p_age is null or c.max_age is null or p_age <= c.max_age)
+  ),
+  keyed as (
+    select
+      r.*,
+      -- Every sort is expressed as a descending key so one keyset condition covers them all
+      case p_sort
+        when 'oldest' then -extract(epoch from r.created_at)
+        when 'rating' then r.group_average_rating
+        when 'expiring' then coalesce(-extract(epoch from r.expire_at), -1e12)
+        -- Forms without a target sort last; completed goals after those still collecting
+        when 'goal' then case
+          when r.target_responses is null then -1
+          when r.group_fill_count >= r.target_responses then -0.5
+          else r.group_fill_count * 100.0 / r.target_responses
+        end
+        when 'quickest' then coalesce(-r.estimated_minutes, -1e6)
+        else extract(epoch from r.created_at)
+      end::double precision as sort_key
+    from ranked r
+  )
+  select
+    k.id,
+    k.user_id,
+    k.title,
+    k.description,
+    k.form_url,
+    k.provider,
+    k.external_form_id,
+    k.tags,
+    k.status,
+    k.created_at,
+    k.expire_at,
+    k.closed_at,
+    k.target_responses,
+    k.eligible_occupations,
+    k.eligible_countries,
+    k.min_age,
+    k.max_age,
+    k.estimated_minutes,
+    k.question_count,
+    coalesce(p.name, 'Unknown User') as author_name,
+    k.group_fill_count as fill_count,
+    k.group_average_rating as average_rating,
+    k.sort_key
+  from keyed k
+  left join public.profiles p on p.id = k.user_id
+  where p_cursor_key is null
+    or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+  order by k.sort_key desc, k.id desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
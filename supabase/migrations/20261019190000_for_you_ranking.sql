@@ -0,0 +1,258 @@
+-- "For You" ranking. recommendation_score rates a form for the signed-in
+-- user from the tags of forms they have filled (weighted by their rating),
+-- posters they have interacted with in either direction, and how urgently
+-- the form needs responses. feed_page uses it for the 'for_you' sort, which
+-- only shows live forms the user hasn't posted or filled.
+create or replace function public.recommendation_score(
+  p_tags text[],
+  p_poster_id uuid,
+  p_expire_at timestamptz,
+  p_fill_count integer,
+  p_target_responses integer
+)
+returns double precision
+language sql
+stable
+as $$
+  with tag_affinity as (
+    select coalesce(sum(coalesce(ff.rating, 3) / 5.0), 0) as weight
+    from public.form_fills ff
+    join public.forms f on f.id = ff.form_id
+    where ff.user_id = auth.uid()
+      and f.tags && p_tags
+  ),
+  poster_affinity as (
+    select
+      -- Forms by this poster the user filled, weighted by their rating
+      coalesce((
+        select sum(coalesce(ff.rating, 3) / 5.0)
+        from public.form_fills ff
+        join public.forms f on f.id = ff.form_id
+        where ff.user_id = auth.uid() and f.user_id = p_poster_id
+      ), 0)
+      -- ...plus the poster filling the user's own forms
+      + coalesce((
+        select count(*) * 0.5
+        from public.form_fills ff
+        join public.forms f on f.id = ff.form_id
+        where ff.user_id = p_poster_id and f.user_id = auth.uid()
+      ), 0) as weight
+  )
+  select
+    ln(1 + t.weight)
+    + 0.8 * ln(1 + p.weight)
+    -- Closing within three days
+    + 0.5 * case
+      when p_expire_at is null or p_expire_at <= now() then 0
+      else greatest(0, 1 - extract(epoch from p_expire_at - now()) / (3 * 86400))
+    end
+    -- Far from its target, or few responses when there is no target
+    + 0.5 * case
+      when p_target_responses is not null then greatest(0, 1 - p_fill_count::double precision / p_target_responses)
+      else 1.0 / (1 + p_fill_count)
+    end
+  from tag_affinity t, poster_affinity p;
+$$;
+
+create or replace function public.feed_page(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_tag text default null,
+  p_include_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_sort text default 'newest',
+  p_cursor_key double precision default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  sort_key double precision,
+  -- Matched terms are wrapped in \x02 ... \x03 so clients can mark them up safely
+  title_highlight text,
+  description_highlight text
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query,
+      nullif(trim(p_search), '') as raw
+  ),
+  visible as (
+    select
+      f.*,
+      coalesce(p.name, 'Unknown User') as author_name,
+      -- Reposts of the same survey share a group: same external form ID, or
+      -- the same poster reusing the same title
+      coalesce(
+        f.external_form_id,
+        f.user_id::text || ':' || trim(regexp_replace(lower(f.title), '[^a-z0-9]+', ' ', 'g'))
+      ) as group_key,
+      stats.fill_count,
+      stats.rating_sum
+    from public.forms f
+    left join lateral (
+      select count(*)::integer as fill_count, coalesce(sum(ff.rating), 0)::double precision as rating_sum
+      from public.form_fills ff
+      where ff.form_id = f.id
+    ) stats on true
+    left join public.profiles p on p.id = f.user_id
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+      and (
+        p_sort <> 'for_you'
+        or (
+          f.status = 'live'
+          and f.user_id is distinct from auth.uid()
+          and not exists (
+            select 1 from public.form_fills mine
+            where mine.form_id = f.id and mine.user_id = auth.uid()
+          )
+        )
+      )
+  ),
+  collapsed as (
+    select
+      v.*,
+      row_number() over (partition by v.group_key order by v.created_at desc, v.id desc) as group_rank,
+      sum(v.fill_count) over (partition by v.group_key)::integer as group_fill_count,
+      sum(v.rating_sum) over (partition by v.group_key) as group_rating_sum
+    from visible v
+  ),
+  matched as (
+    select
+      c.*,
+      coalesce(c.search_vector, ''::tsvector) || setweight(to_tsvector('simple', c.author_name), 'C') as document
+    from collapsed c
+    where c.group_rank = 1
+  ),
+  ranked as (
+    select
+      m.*,
+      case when m.group_fill_count > 0 then m.group_rating_sum / m.group_fill_count else 0 end as group_average_rating,
+      case when s.raw is null then 0
+        else ts_rank_cd(m.document, s.query) + 0.5 * word_similarity(s.raw, m.title)
+      end as relevance
+    from matched m
+    cross join search s
+    where (
+        s.raw is null
+        or m.document @@ s.query
+        -- Typo tolerance: close enough to a word in the title
+        or word_similarity(s.raw, m.title) >= 0.5
+      )
+      and (p_tag is null or p_tag = any(m.tags))
+      and (p_include_tags is null or coalesce(m.tags, '{}') @> p_include_tags)
+      and (p_exclude_tags is null or not coalesce(m.tags, '{}') && p_exclude_tags)
+      and (p_provider is null or m.provider = p_provider)
+      and (p_min_minutes is null or m.estimated_minutes >= p_min_minutes)
+      and (p_max_minutes is null or m.estimated_minutes <= p_max_minutes)
+      -- Eligibility: a missing participant attribute never excludes a form
+      and (
+        p_occupation is null
+        or coalesce(cardinality(m.eligible_occupations), 0) = 0
+        or p_occupation = any(m.eligible_occupations)
+      )
+      and (
+        p_country is null
+        or coalesce(cardinality(m.eligible_countries), 0) = 0
+        or lower(trim(p_country)) in (select lower(trim(country)) from unnest(m.eligible_countries) as country)
+      )
+      and (p_age is null or m.min_age is null or p_age >= m.min_age)
+      and (p_age is null or m.max_age is null or p_age <= m.max_age)
+  ),
+  keyed as (
+    select
+      r.*,
+      -- Every sort is expressed as a descending key so one keyset condition covers them all
+      case p_sort
+        when 'relevance' then r.relevance
+        when 'for_you' then public.recommendation_score(
+          r.tags, r.user_id, r.expire_at, r.group_fill_count, r.target_responses
+        )
+        when 'oldest' then -extract(epoch from r.created_at)
+        when 'rating' then r.group_average_rating
+        when 'expiring' then coalesce(-extract(epoch from r.expire_at), -1e12)
+        -- Forms without a target sort last; completed goals after those still collecting
+        when 'goal' then case
+          when r.target_responses is null then -1
+          when r.group_fill_count >= r.target_responses then -0.5
+          else r.group_fill_count * 100.0 / r.target_responses
+        end
+        when 'quickest' then coalesce(-r.estimated_minutes, -1e6)
+        else extract(epoch from r.created_at)
+      end::double precision as sort_key
+    from ranked r
+  )
+  select
+    page.*,
+    case when s.query is null then page.title
+      else ts_headline('english', page.title, s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as title_highlight,
+    case when s.query is null then page.description
+      else ts_headline('english', coalesce(page.description, ''), s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as description_highlight
+  from (
+    select
+      k.id,
+      k.user_id,
+      k.title,
+      k.description,
+      k.form_url,
+      k.provider,
+      k.external_form_id,
+      k.tags,
+      k.status,
+      k.created_at,
+      k.expire_at,
+      k.closed_at,
+      k.target_responses,
+      k.eligible_occupations,
+      k.eligible_countries,
+      k.min_age,
+      k.max_age,
+      k.estimated_minutes,
+      k.question_count,
+      k.author_name,
+      k.group_fill_count as fill_count,
+      k.group_average_rating as average_rating,
+      k.sort_key
+    from keyed k
+    where p_cursor_key is null
+      or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+    order by k.sort_key desc, k.id desc
+    limit least(greatest(p_limit, 1), 100)
+  ) page
+  cross join search s
+  -- Highlighting runs after the limit so only one page of rows pays for it
+  order by page.sort_key desc, page.id desc;
+$$;
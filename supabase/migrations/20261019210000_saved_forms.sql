@@ -0,0 +1,29 @@
+-- Bookmarks: forms a user wants to come back to and fill later. Bookmarks
+-- outlive soft deletes and archiving so the Saved tab can explain what
+-- happened; they go away when the form is purged.
+create table if not exists public.saved_forms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  form_id uuid not null references public.forms (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (user_id, form_id)
+);
+
+create index if not exists saved_forms_user_id_idx on public.saved_forms (user_id, created_at desc);
+
+alter table public.saved_forms enable row level security;
+
+drop policy if exists "Users can view their own saved forms" on public.saved_forms;
+create policy "Users can view their own saved forms"
+  on public.saved_forms for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can save forms" on public.saved_forms;
+create policy "Users can save forms"
+  on public.saved_forms for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their saved forms" on public.saved_forms;
+create policy "Users can remove their saved forms"
+  on public.saved_forms for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Named feed searches. The query column holds the feed's query string
+-- (e.g. "tag=psychology&sort=expiring") so a saved search is just a link
+-- the client can apply as-is.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 60),
+  query text not null default '',
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists saved_searches_user_id_idx on public.saved_searches (user_id, created_at);
+
+alter table public.saved_searches enable row level security;
+
+drop policy if exists "Users can view their own saved searches" on public.saved_searches;
+create policy "Users can view their own saved searches"
+  on public.saved_searches for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can save searches" on public.saved_searches;
+create policy "Users can save searches"
+  on public.saved_searches for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their saved searches" on public.saved_searches;
+create policy "Users can remove their saved searches"
+  on public.saved_searches for delete
+  using (auth.uid() = user_id);
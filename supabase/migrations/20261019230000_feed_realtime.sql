@@ -0,0 +1,73 @@
+-- Live feed updates. The feed listens for new forms and for fills on
+-- Supabase Realtime, then refreshes the counts on cards it already shows
+-- with feed_form_stats instead of reloading every page.
+--
+-- The publication only exists on Supabase (hosted or `supabase start`); a
+-- plain Postgres stand-in skips this step and the feed falls back to the
+-- Refresh button.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'forms'
+    ) then
+      alter publication supabase_realtime add table public.forms;
+    end if;
+
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'form_fills'
+    ) then
+      alter publication supabase_realtime add table public.form_fills;
+    end if;
+  end if;
+end;
+$$;
+
+-- Fill count and average rating for the given forms, pooled across reposts
+-- exactly as feed_page does so live updates match what a reload would show
+create or replace function public.feed_form_stats(
+  p_form_ids uuid[],
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[]
+)
+returns table (
+  id uuid,
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  with grouped as (
+    select
+      f.id,
+      coalesce(
+        f.external_form_id,
+        f.user_id::text || ':' || trim(regexp_replace(lower(f.title), '[^a-z0-9]+', ' ', 'g'))
+      ) as group_key
+    from public.forms f
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+  ),
+  wanted as (
+    select g.* from grouped g
+    where g.group_key in (select w.group_key from grouped w where w.id = any(p_form_ids))
+  ),
+  group_stats as (
+    select
+      w.group_key,
+      count(ff.id)::integer as fill_count,
+      coalesce(sum(ff.rating), 0)::double precision as rating_sum
+    from wanted w
+    left join public.form_fills ff on ff.form_id = w.id
+    group by w.group_key
+  )
+  select
+    w.id,
+    s.fill_count,
+    case when s.fill_count > 0 then s.rating_sum / s.fill_count else 0 end as average_rating
+  from wanted w
+  join group_stats s on s.group_key = w.group_key
+  where w.id = any(p_form_ids);
+$$;
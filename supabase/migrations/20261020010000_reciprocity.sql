@@ -0,0 +1,86 @@
+-- Fill-for-fill reciprocity. A supporter of a poster is anyone who filled
+-- one of their forms; a poster "fills back" a supporter by filling one of
+-- the supporter's forms in return.
+create or replace view public.user_reciprocity
+with (security_invoker = true)
+as
+  with supporters as (
+    select distinct f.user_id as poster_id, ff.user_id as supporter_id
+    from public.form_fills ff
+    join public.forms f on f.id = ff.form_id
+    where ff.user_id <> f.user_id
+  ),
+  returned as (
+    select
+      s.poster_id,
+      s.supporter_id,
+      exists (
+        select 1 from supporters back
+        where back.poster_id = s.supporter_id and back.supporter_id = s.poster_id
+      ) as filled_back
+    from supporters s
+  )
+  select
+    r.poster_id as user_id,
+    count(*)::integer as supporter_count,
+    count(*) filter (where r.filled_back)::integer as filled_back_count,
+    -- Share of supporters this user has filled back, 0-100
+    round(100.0 * count(*) filter (where r.filled_back) / count(*))::integer as score
+  from returned r
+  group by r.poster_id;
+
+-- Live forms posted by people who filled the signed-in user's forms, which
+-- the user hasn't filled back yet (on any copy). Biggest supporters first.
+create or replace function public.fill_back_forms()
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  form_url text,
+  provider public.form_provider,
+  expire_at timestamptz,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  -- How many of the user's forms this poster has filled
+  fills_for_me integer,
+  last_filled_for_me_at timestamptz
+)
+language sql
+stable
+as $$
+  with supporters as (
+    select ff.user_id as supporter_id, count(*)::integer as fills_for_me, max(ff.created_at) as last_filled_at
+    from public.form_fills ff
+    join public.forms f on f.id = ff.form_id
+    where f.user_id = auth.uid()
+      and ff.user_id <> auth.uid()
+    group by ff.user_id
+  )
+  select
+    m.id,
+    m.user_id,
+    m.title,
+    m.form_url,
+    m.provider,
+    m.expire_at,
+    m.eligible_occupations,
+    m.eligible_countries,
+    m.min_age,
+    m.max_age,
+    m.estimated_minutes,
+    m.question_count,
+    m.author_name,
+    s.fills_for_me,
+    s.last_filled_at as last_filled_for_me_at
+  from public.feed_matches(
+    p_statuses => array['live']::public.form_status[],
+    p_hide_filled => true
+  ) m
+  join supporters s on s.supporter_id = m.user_id
+  order by s.fills_for_me desc, s.last_filled_at desc, m.expire_at nulls last, m.id;
+$$;
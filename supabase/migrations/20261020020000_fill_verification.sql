@@ -0,0 +1,152 @@
+-- Completion-code verification. Posters put a secret code on their survey's
+-- confirmation page; a fill only counts toward points and badges once the
+-- filler has entered that code. Codes live in their own table because forms
+-- are readable by everyone. Fills recorded before codes existed stay
+-- unverified.
+alter table public.form_fills add column if not exists verified boolean not null default false;
+alter table public.form_fills add column if not exists verified_at timestamptz;
+
+alter table public.forms add column if not exists has_completion_code boolean not null default false;
+
+create index if not exists form_fills_verified_user_idx on public.form_fills (user_id) where verified;
+
+create table if not exists public.form_completion_codes (
+  form_id uuid primary key references public.forms (id) on delete cascade,
+  code text not null check (char_length(trim(code)) between 4 and 64),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.form_completion_codes enable row level security;
+
+drop policy if exists "Posters can view their completion codes" on public.form_completion_codes;
+create policy "Posters can view their completion codes"
+  on public.form_completion_codes for select
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can set completion codes" on public.form_completion_codes;
+create policy "Posters can set completion codes"
+  on public.form_completion_codes for insert
+  with check (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can change completion codes" on public.form_completion_codes;
+create policy "Posters can change completion codes"
+  on public.form_completion_codes for update
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()))
+  with check (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can remove completion codes" on public.form_completion_codes;
+create policy "Posters can remove completion codes"
+  on public.form_completion_codes for delete
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+-- Lets fillers see whether a form asks for a code without seeing the code
+create or replace function public.sync_has_completion_code()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.forms
+  set has_completion_code = (tg_op <> 'DELETE')
+  where id = coalesce(new.form_id, old.form_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists form_completion_codes_sync on public.form_completion_codes;
+create trigger form_completion_codes_sync
+  after insert or delete on public.form_completion_codes
+  for each row execute function public.sync_has_completion_code();
+
+-- Only verify_form_fill may mark a fill verified; clients writing the
+-- columns directly are ignored
+create or replace function public.guard_fill_verification()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_setting('app.verifying_fill', true) is distinct from 'on' then
+    if tg_op = 'INSERT' then
+      new.verified := false;
+      new.verified_at := null;
+    else
+      new.verified := old.verified;
+      new.verified_at := old.verified_at;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_guard_verification on public.form_fills;
+create trigger form_fills_guard_verification
+  before insert or update on public.form_fills
+  for each row execute function public.guard_fill_verification();
+
+-- Checks a completion code for the signed-in user's fill and marks it
+-- verified when it matches. Codes compare case-insensitively, ignoring
+-- surrounding spaces.
+create or replace function public.verify_form_fill(p_fill_id uuid, p_code text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  select c.code into v_code
+  from public.form_fills ff
+  join public.form_completion_codes c on c.form_id = ff.form_id
+  where ff.id = p_fill_id
+    and ff.user_id = auth.uid();
+
+  if v_code is null or lower(trim(v_code)) <> lower(trim(coalesce(p_code, ''))) then
+    return false;
+  end if;
+
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = p_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return true;
+end;
+$$;
+
+-- Fill badges are earned with verified fills only
+create or replace function public.award_fill_badges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_verified integer;
+begin
+  select count(*) into v_verified
+  from public.form_fills
+  where user_id = new.user_id and verified;
+
+  insert into public.user_badges (user_id, badge_name)
+  select new.user_id, b.badge_name
+  from (values (1, 'First Form Filled'), (5, 'Form Enthusiast'), (10, 'Form Master')) as b(threshold, badge_name)
+  where v_verified >= b.threshold
+    and not exists (
+      select 1 from public.user_badges ub
+      where ub.user_id = new.user_id and ub.badge_name = b.badge_name
+    );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_award_badges on public.form_fills;
+create trigger form_fills_award_badges
+  after update of verified on public.form_fills
+  for each row
+  when (new.verified and not old.verified)
+  execute function public.award_fill_badges();
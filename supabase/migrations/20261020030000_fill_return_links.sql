@@ -0,0 +1,159 @@
+-- Return links: an alternative to typed completion codes. Each time a filler
+-- opens a form that uses them, they get a signed token that rides along on
+-- the survey URL; the poster's after-submit redirect sends it back to
+-- /fill-complete, which verifies the fill without any typing.
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.forms add column if not exists return_link_enabled boolean not null default false;
+
+-- The signing key never leaves the database. The private schema isn't
+-- exposed through the API, and every environment generates its own key.
+create schema if not exists private;
+
+create table if not exists private.fill_token_keys (
+  id boolean primary key default true check (id),
+  secret bytea not null default extensions.gen_random_bytes(32)
+);
+
+insert into private.fill_token_keys (id) values (true) on conflict (id) do nothing;
+
+-- Tokens look like <form id>.<user id>.<expiry, unix seconds>.<nonce>.<signature>
+create or replace function private.sign_fill_token(p_form_id uuid, p_user_id uuid, p_expires_at timestamptz)
+returns text
+language sql
+volatile
+set search_path = public
+as $$
+  with payload as (
+    select concat_ws('.', p_form_id, p_user_id, floor(extract(epoch from p_expires_at))::bigint,
+      encode(extensions.gen_random_bytes(8), 'hex')) as value
+  )
+  select payload.value || '.' || encode(extensions.hmac(convert_to(payload.value, 'UTF8'), k.secret, 'sha256'), 'hex')
+  from payload, private.fill_token_keys k;
+$$;
+
+-- Checks a token's signature and expiry as of p_at. Status is 'valid',
+-- 'expired' or 'invalid'; ids are only returned for signed tokens.
+create or replace function private.read_fill_token(p_token text, p_at timestamptz default now())
+returns table (status text, form_id uuid, user_id uuid, expires_at timestamptz)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_parts text[] := string_to_array(coalesce(p_token, ''), '.');
+  v_expected text;
+begin
+  if array_length(v_parts, 1) is distinct from 5
+    or v_parts[1] !~ '^[0-9a-f-]{36}$'
+    or v_parts[2] !~ '^[0-9a-f-]{36}$'
+    or v_parts[3] !~ '^[0-9]{1,12}$' then
+    return query select 'invalid'::text, null::uuid, null::uuid, null::timestamptz;
+    return;
+  end if;
+
+  select encode(extensions.hmac(convert_to(array_to_string(v_parts[1:4], '.'), 'UTF8'), k.secret, 'sha256'), 'hex')
+  into v_expected
+  from private.fill_token_keys k;
+
+  if v_expected is distinct from v_parts[5] then
+    return query select 'invalid'::text, null::uuid, null::uuid, null::timestamptz;
+    return;
+  end if;
+
+  return query select
+    case when to_timestamp(v_parts[3]::bigint) <= p_at then 'expired' else 'valid' end,
+    v_parts[1]::uuid,
+    v_parts[2]::uuid,
+    to_timestamp(v_parts[3]::bigint);
+end;
+$$;
+
+revoke all on function private.sign_fill_token(uuid, uuid, timestamptz) from public;
+revoke all on function private.read_fill_token(text, timestamptz) from public;
+
+-- Issued when the signed-in user opens a form; long enough for most surveys
+create or replace function public.create_fill_return_token(p_form_id uuid)
+returns text
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to fill forms';
+  end if;
+
+  if not exists (
+    select 1 from public.forms
+    where id = p_form_id
+      and return_link_enabled
+      and status = 'live'
+      and closed_at is null
+      and deleted_at is null
+  ) then
+    return null;
+  end if;
+
+  return private.sign_fill_token(p_form_id, auth.uid(), now() + interval '24 hours');
+end;
+$$;
+
+-- Called from the return link. Records the signed-in user's fill if they
+-- don't have one yet, marks it verified and reports what happened:
+-- 'completed', 'invalid', 'expired', 'wrong_user' or 'closed'.
+create or replace function public.complete_fill_from_token(p_token text)
+returns table (status text, form_id uuid, fill_id uuid)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_token record;
+  v_fill_id uuid;
+begin
+  select * into v_token from private.read_fill_token(p_token);
+
+  if v_token.status <> 'valid' then
+    return query select v_token.status, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if v_token.user_id is distinct from auth.uid() then
+    return query select 'wrong_user'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  select ff.id into v_fill_id
+  from public.form_fills ff
+  where ff.form_id = v_token.form_id and ff.user_id = v_token.user_id
+  order by ff.created_at desc
+  limit 1;
+
+  if v_fill_id is null then
+    -- The survey may have closed while the filler was answering it
+    if exists (
+      select 1 from public.forms f
+      where f.id = v_token.form_id and (f.closed_at is not null or f.deleted_at is not null)
+    ) then
+      return query select 'closed'::text, v_token.form_id, null::uuid;
+      return;
+    end if;
+
+    insert into public.form_fills (form_id, user_id)
+    values (v_token.form_id, v_token.user_id)
+    returning id into v_fill_id;
+  end if;
+
+  -- Verifying as a separate update keeps the badge trigger in the loop
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = v_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return query select 'completed'::text, v_token.form_id, v_fill_id;
+end;
+$$;
@@ -0,0 +1,248 @@
+-- Fill sessions record when someone opens a survey from the app. The fill
+-- they submit afterwards is attached to their latest session, which tells
+-- posters how long people take and lets us turn away fills that came back
+-- faster than the survey can be answered. Return links now carry the
+-- session id, so each link maps to exactly one session.
+create table if not exists public.fill_sessions (
+  id uuid primary key default gen_random_uuid(),
+  form_id uuid not null references public.forms (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  opened_at timestamptz not null default now()
+);
+
+create index if not exists fill_sessions_user_form_idx on public.fill_sessions (user_id, form_id, opened_at desc);
+
+alter table public.fill_sessions enable row level security;
+
+-- Sessions are only created through open_fill_session
+drop policy if exists "Users can view their own fill sessions" on public.fill_sessions;
+create policy "Users can view their own fill sessions"
+  on public.fill_sessions for select
+  using (auth.uid() = user_id);
+
+alter table public.form_fills add column if not exists session_id uuid references public.fill_sessions (id) on delete set null;
+alter table public.form_fills add column if not exists seconds_to_submit integer;
+
+-- A quarter of the poster's estimate, or a few seconds per question when
+-- there's no estimate. Forms with neither have no minimum.
+create or replace function public.minimum_fill_seconds(p_estimated_minutes integer, p_question_count integer)
+returns integer
+language sql
+immutable
+as $$
+  select coalesce(p_estimated_minutes * 15, p_question_count * 4);
+$$;
+
+-- Attaches the session the client names, or else the filler's latest one
+-- for the form, and times the fill. Fills without any session (opened
+-- outside the app) are kept but untimed.
+create or replace function public.attach_fill_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session public.fill_sessions%rowtype;
+  v_minimum integer;
+begin
+  select s.* into v_session
+  from public.fill_sessions s
+  where s.form_id = new.form_id
+    and s.user_id = new.user_id
+  order by s.id is not distinct from new.session_id desc, s.opened_at desc
+  limit 1;
+
+  if v_session.id is null then
+    new.session_id := null;
+    new.seconds_to_submit := null;
+    return new;
+  end if;
+
+  new.session_id := v_session.id;
+  new.seconds_to_submit := floor(extract(epoch from now() - v_session.opened_at))::integer;
+
+  select public.minimum_fill_seconds(f.estimated_minutes, f.question_count) into v_minimum
+  from public.forms f
+  where f.id = new.form_id;
+
+  if new.seconds_to_submit < v_minimum then
+    raise exception using
+      errcode = 'check_violation',
+      message = format('That was quicker than this form can be filled (at least %s). Finish the survey, then submit your rating.',
+        case when v_minimum >= 60 then (v_minimum / 60) || ' min' else v_minimum || ' sec' end);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_attach_session on public.form_fills;
+create trigger form_fills_attach_session
+  before insert on public.form_fills
+  for each row execute function public.attach_fill_session();
+
+-- The token's nonce becomes the session id
+drop function if exists public.complete_fill_from_token(text);
+drop function if exists public.create_fill_return_token(uuid);
+drop function if exists private.read_fill_token(text, timestamptz);
+drop function if exists private.sign_fill_token(uuid, uuid, timestamptz);
+
+-- Tokens look like <form id>.<user id>.<expiry, unix seconds>.<session id>.<signature>
+create or replace function private.sign_fill_token(p_form_id uuid, p_user_id uuid, p_expires_at timestamptz, p_session_id uuid)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  with payload as (
+    select concat_ws('.', p_form_id, p_user_id, floor(extract(epoch from p_expires_at))::bigint, p_session_id) as value
+  )
+  select payload.value || '.' || encode(extensions.hmac(convert_to(payload.value, 'UTF8'), k.secret, 'sha256'), 'hex')
+  from payload, private.fill_token_keys k;
+$$;
+
+-- Checks a token's signature and expiry as of p_at. Status is 'valid',
+-- 'expired' or 'invalid'; ids are only returned for signed tokens.
+create or replace function private.read_fill_token(p_token text, p_at timestamptz default now())
+returns table (status text, form_id uuid, user_id uuid, expires_at timestamptz, session_id uuid)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_parts text[] := string_to_array(coalesce(p_token, ''), '.');
+  v_expected text;
+begin
+  if array_length(v_parts, 1) is distinct from 5
+    or v_parts[1] !~ '^[0-9a-f-]{36}$'
+    or v_parts[2] !~ '^[0-9a-f-]{36}$'
+    or v_parts[3] !~ '^[0-9]{1,12}$'
+    or v_parts[4] !~ '^[0-9a-f-]{36}$' then
+    return query select 'invalid'::text, null::uuid, null::uuid, null::timestamptz, null::uuid;
+    return;
+  end if;
+
+  select encode(extensions.hmac(convert_to(array_to_string(v_parts[1:4], '.'), 'UTF8'), k.secret, 'sha256'), 'hex')
+  into v_expected
+  from private.fill_token_keys k;
+
+  if v_expected is distinct from v_parts[5] then
+    return query select 'invalid'::text, null::uuid, null::uuid, null::timestamptz, null::uuid;
+    return;
+  end if;
+
+  return query select
+    case when to_timestamp(v_parts[3]::bigint) <= p_at then 'expired' else 'valid' end,
+    v_parts[1]::uuid,
+    v_parts[2]::uuid,
+    to_timestamp(v_parts[3]::bigint),
+    v_parts[4]::uuid;
+end;
+$$;
+
+revoke all on function private.sign_fill_token(uuid, uuid, timestamptz, uuid) from public;
+revoke all on function private.read_fill_token(text, timestamptz) from public;
+
+-- Called when the signed-in user opens a form. Forms using a return link
+-- also get a token for the survey URL, good for 24 hours.
+create or replace function public.open_fill_session(p_form_id uuid)
+returns table (session_id uuid, return_token text)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_form public.forms%rowtype;
+  v_session_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to fill forms';
+  end if;
+
+  select * into v_form
+  from public.forms
+  where id = p_form_id
+    and status = 'live'
+    and closed_at is null
+    and deleted_at is null;
+
+  if v_form.id is null then
+    raise exception 'This form is no longer accepting responses';
+  end if;
+
+  insert into public.fill_sessions (form_id, user_id)
+  values (p_form_id, auth.uid())
+  returning id into v_session_id;
+
+  return query select
+    v_session_id,
+    case when v_form.return_link_enabled
+      then private.sign_fill_token(p_form_id, auth.uid(), now() + interval '24 hours', v_session_id)
+    end;
+end;
+$$;
+
+-- Called from the return link. Records the signed-in user's fill if they
+-- don't have one yet, marks it verified and reports what happened:
+-- 'completed', 'invalid', 'expired', 'wrong_user', 'closed' or 'too_fast'.
+create or replace function public.complete_fill_from_token(p_token text)
+returns table (status text, form_id uuid, fill_id uuid)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_token record;
+  v_fill_id uuid;
+begin
+  select * into v_token from private.read_fill_token(p_token);
+
+  if v_token.status <> 'valid' then
+    return query select v_token.status, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if v_token.user_id is distinct from auth.uid() then
+    return query select 'wrong_user'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  select ff.id into v_fill_id
+  from public.form_fills ff
+  where ff.form_id = v_token.form_id and ff.user_id = v_token.user_id
+  order by ff.created_at desc
+  limit 1;
+
+  if v_fill_id is null then
+    -- The survey may have closed while the filler was answering it
+    if exists (
+      select 1 from public.forms f
+      where f.id = v_token.form_id and (f.closed_at is not null or f.deleted_at is not null)
+    ) then
+      return query select 'closed'::text, v_token.form_id, null::uuid;
+      return;
+    end if;
+
+    begin
+      insert into public.form_fills (form_id, user_id, session_id)
+      values (v_token.form_id, v_token.user_id, v_token.session_id)
+      returning id into v_fill_id;
+    exception when check_violation then
+      return query select 'too_fast'::text, v_token.form_id, null::uuid;
+      return;
+    end;
+  end if;
+
+  -- Verifying as a separate update keeps the badge trigger in the loop
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = v_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return query select 'completed'::text, v_token.form_id, v_fill_id;
+end;
+$$;
@@ -0,0 +1,79 @@
+-- One fill per user per form. Fillers can still change their rating and
+-- comment; every change is logged so posters can see when a rating moved.
+-- Existing duplicates are archived rather than deleted.
+
+-- Fills taken out of form_fills are moved here rather than deleted, so they
+-- can be restored. Only the service role can read them.
+create table if not exists public.archived_form_fills (
+  like public.form_fills,
+  archived_at timestamptz not null default now(),
+  archive_reason text not null
+);
+
+alter table public.archived_form_fills enable row level security;
+
+-- Collapse existing duplicates, keeping the verified fill or else the first one
+with duplicates as (
+  delete from public.form_fills ff
+  using (
+    select id, row_number() over (partition by form_id, user_id order by verified desc, created_at, id) as position
+    from public.form_fills
+  ) ranked
+  where ff.id = ranked.id
+    and ranked.position > 1
+  returning ff.*
+)
+insert into public.archived_form_fills
+select d.*, now(), 'duplicate'
+from duplicates d;
+
+alter table public.form_fills drop constraint if exists form_fills_form_id_user_id_key;
+alter table public.form_fills add constraint form_fills_form_id_user_id_key unique (form_id, user_id);
+
+create table if not exists public.form_fill_edits (
+  id uuid primary key default gen_random_uuid(),
+  fill_id uuid not null references public.form_fills (id) on delete cascade,
+  previous_rating integer,
+  new_rating integer,
+  previous_comment text,
+  new_comment text,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists form_fill_edits_fill_id_idx on public.form_fill_edits (fill_id, edited_at);
+
+alter table public.form_fill_edits enable row level security;
+
+-- Written only by the trigger below; readable by the filler and the form's poster
+drop policy if exists "Fillers and posters can view fill edits" on public.form_fill_edits;
+create policy "Fillers and posters can view fill edits"
+  on public.form_fill_edits for select
+  using (
+    exists (
+      select 1
+      from public.form_fills ff
+      join public.forms f on f.id = ff.form_id
+      where ff.id = fill_id
+        and (ff.user_id = auth.uid() or f.user_id = auth.uid())
+    )
+  );
+
+create or replace function public.log_fill_edit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.form_fill_edits (fill_id, previous_rating, new_rating, previous_comment, new_comment)
+  values (new.id, old.rating, new.rating, old.comment, new.comment);
+  return null;
+end;
+$$;
+
+drop trigger if exists form_fills_log_edit on public.form_fills;
+create trigger form_fills_log_edit
+  after update of rating, comment on public.form_fills
+  for each row
+  when (old.rating is distinct from new.rating or old.comment is distinct from new.comment)
+  execute function public.log_fill_edit();
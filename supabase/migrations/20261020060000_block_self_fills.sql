@@ -0,0 +1,34 @@
+-- Posters can't fill or rate their own forms. Existing self-fills are moved
+-- to archived_form_fills so they stop counting toward fill counts, ratings
+-- and the leaderboard but can still be restored.
+with self_fills as (
+  delete from public.form_fills ff
+  using public.forms f
+  where f.id = ff.form_id
+    and f.user_id = ff.user_id
+  returning ff.*
+)
+insert into public.archived_form_fills
+select s.*, now(), 'self_fill'
+from self_fills s;
+
+create or replace function public.reject_self_fills()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.forms
+    where id = new.form_id
+      and user_id = new.user_id
+  ) then
+    raise exception 'You can''t fill or rate your own form';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists form_fills_reject_self_fills on public.form_fills;
+create trigger form_fills_reject_self_fills
+  before insert or update of form_id, user_id on public.form_fills
+  for each row execute function public.reject_self_fills();
@@ -0,0 +1,6 @@
+-- Fillers may only change their rating and comment. Everything else on a
+-- fill (form, session, timing, verification) is set by the database, so
+-- moving a verified fill to another form or rewriting its timing is
+-- refused instead of silently applied.
+revoke update on public.form_fills from anon, authenticated;
+grant update (rating, comment) on public.form_fills to authenticated;
@@ -0,0 +1,49 @@
+-- Every new fill must follow a fill session, so skipping open_fill_session
+-- no longer skips the minimum-time check. The session and timing columns
+-- are the database's to set: clients can only insert the form, rating and
+-- comment, and the trigger always picks the filler's latest session.
+revoke insert on public.form_fills from anon, authenticated;
+grant insert (form_id, user_id, rating, comment) on public.form_fills to authenticated;
+
+-- Return links name their own session (complete_fill_from_token inserts
+-- with session_id set); client inserts can't, so they get the latest one
+create or replace function public.attach_fill_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session public.fill_sessions%rowtype;
+  v_minimum integer;
+begin
+  select s.* into v_session
+  from public.fill_sessions s
+  where s.form_id = new.form_id
+    and s.user_id = new.user_id
+  order by s.id is not distinct from new.session_id desc, s.opened_at desc
+  limit 1;
+
+  if v_session.id is null then
+    raise exception using
+      errcode = 'check_violation',
+      message = 'Open the form from SurvEase before rating it, so your fill can be timed.';
+  end if;
+
+  new.session_id := v_session.id;
+  new.seconds_to_submit := floor(extract(epoch from now() - v_session.opened_at))::integer;
+
+  select public.minimum_fill_seconds(f.estimated_minutes, f.question_count) into v_minimum
+  from public.forms f
+  where f.id = new.form_id;
+
+  if new.seconds_to_submit < v_minimum then
+    raise exception using
+      errcode = 'check_violation',
+      message = format('That was quicker than this form can be filled (at least %s). Finish the survey, then submit your rating.',
+        case when v_minimum >= 60 then (v_minimum / 60) || ' min' else v_minimum || ' sec' end);
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,64 @@
+-- Completion codes can no longer be guessed: each filler gets five wrong
+-- codes per form, after which the fill can't be verified with a code, and
+-- new codes must be at least 8 characters. Attempts are kept per form and
+-- filler rather than per fill so deleting and refilling doesn't reset them.
+create table if not exists private.completion_code_attempts (
+  form_id uuid not null references public.forms (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  failed_attempts integer not null default 0,
+  last_failed_at timestamptz not null default now(),
+  primary key (form_id, user_id)
+);
+
+-- Existing shorter codes keep working until the poster changes them
+alter table public.form_completion_codes drop constraint if exists form_completion_codes_code_check;
+alter table public.form_completion_codes
+  add constraint form_completion_codes_code_check check (char_length(trim(code)) between 8 and 64) not valid;
+
+create or replace function public.verify_form_fill(p_fill_id uuid, p_code text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_form_id uuid;
+  v_code text;
+  v_failed integer;
+begin
+  select ff.form_id, c.code into v_form_id, v_code
+  from public.form_fills ff
+  join public.form_completion_codes c on c.form_id = ff.form_id
+  where ff.id = p_fill_id
+    and ff.user_id = auth.uid();
+
+  if v_code is null then
+    return false;
+  end if;
+
+  select a.failed_attempts into v_failed
+  from private.completion_code_attempts a
+  where a.form_id = v_form_id and a.user_id = auth.uid();
+
+  if coalesce(v_failed, 0) >= 5 then
+    raise exception 'Too many wrong codes. This fill can no longer be verified with a code.';
+  end if;
+
+  if lower(trim(v_code)) <> lower(trim(coalesce(p_code, ''))) then
+    insert into private.completion_code_attempts (form_id, user_id, failed_attempts)
+    values (v_form_id, auth.uid(), 1)
+    on conflict (form_id, user_id) do update
+    set failed_attempts = private.completion_code_attempts.failed_attempts + 1,
+        last_failed_at = now();
+    return false;
+  end if;
+
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = p_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return true;
+end;
+$$;
@@ -0,0 +1,113 @@
+-- The signed token is in the survey URL, so a filler could open the return
+-- link themselves without submitting the survey. Return links now also
+-- carry a per-form key that only the poster's after-submit redirect knows,
+-- and a fill is only completed when both match. Forms already using return
+-- links get a key here; their posters need to copy the new return link.
+create table if not exists public.form_return_keys (
+  form_id uuid primary key references public.forms (id) on delete cascade,
+  key text not null check (key ~ '^[A-Za-z0-9]{16,128}$'),
+  created_at timestamptz not null default now()
+);
+
+alter table public.form_return_keys enable row level security;
+
+drop policy if exists "Posters can view their return keys" on public.form_return_keys;
+create policy "Posters can view their return keys"
+  on public.form_return_keys for select
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can set return keys" on public.form_return_keys;
+create policy "Posters can set return keys"
+  on public.form_return_keys for insert
+  with check (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can change return keys" on public.form_return_keys;
+create policy "Posters can change return keys"
+  on public.form_return_keys for update
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()))
+  with check (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+drop policy if exists "Posters can remove return keys" on public.form_return_keys;
+create policy "Posters can remove return keys"
+  on public.form_return_keys for delete
+  using (exists (select 1 from public.forms f where f.id = form_id and f.user_id = auth.uid()));
+
+insert into public.form_return_keys (form_id, key)
+select f.id, encode(extensions.gen_random_bytes(16), 'hex')
+from public.forms f
+where f.return_link_enabled
+on conflict (form_id) do nothing;
+
+drop function if exists public.complete_fill_from_token(text);
+
+-- Called from the return link. Records the signed-in user's fill if they
+-- don't have one yet, marks it verified and reports what happened:
+-- 'completed', 'invalid', 'expired', 'wrong_user', 'closed' or 'too_fast'.
+-- A link without the form's return key is 'invalid'.
+create or replace function public.complete_fill_from_token(p_token text, p_key text)
+returns table (status text, form_id uuid, fill_id uuid)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_token record;
+  v_fill_id uuid;
+begin
+  select * into v_token from private.read_fill_token(p_token);
+
+  if v_token.status <> 'valid' then
+    return query select v_token.status, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if not exists (
+    select 1 from public.form_return_keys k
+    where k.form_id = v_token.form_id and k.key = p_key
+  ) then
+    return query select 'invalid'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if v_token.user_id is distinct from auth.uid() then
+    return query select 'wrong_user'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  select ff.id into v_fill_id
+  from public.form_fills ff
+  where ff.form_id = v_token.form_id and ff.user_id = v_token.user_id
+  order by ff.created_at desc
+  limit 1;
+
+  if v_fill_id is null then
+    -- The survey may have closed while the filler was answering it
+    if exists (
+      select 1 from public.forms f
+      where f.id = v_token.form_id and (f.closed_at is not null or f.deleted_at is not null)
+    ) then
+      return query select 'closed'::text, v_token.form_id, null::uuid;
+      return;
+    end if;
+
+    begin
+      insert into public.form_fills (form_id, user_id, session_id)
+      values (v_token.form_id, v_token.user_id, v_token.session_id)
+      returning id into v_fill_id;
+    exception when check_violation then
+      return query select 'too_fast'::text, v_token.form_id, null::uuid;
+      return;
+    end;
+  end if;
+
+  -- Verifying as a separate update keeps the badge trigger in the loop
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = v_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return query select 'completed'::text, v_token.form_id, v_fill_id;
+end;
+$$;
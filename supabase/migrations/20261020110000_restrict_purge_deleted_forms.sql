@@ -0,0 +1,5 @@
+-- purge_deleted_forms runs as its owner and deletes every form past its
+-- restore window, so it must not be callable through the API. Only the
+-- scheduled job (run as postgres) and the service role may call it.
+revoke execute on function public.purge_deleted_forms() from public, anon, authenticated;
+grant execute on function public.purge_deleted_forms() to service_role;
@@ -0,0 +1,5 @@
+-- advance_form_lifecycle runs as its owner and moves every form along, so
+-- like purge_deleted_forms it is only for the scheduled job (run as
+-- postgres) and the service role, not the API roles.
+revoke execute on function public.advance_form_lifecycle() from public, anon, authenticated;
+grant execute on function public.advance_form_lifecycle() to service_role;
@@ -0,0 +1,21 @@
+-- Moving an expired form's expiry into the future puts it back live, so
+-- extending a form from the edit dialog works without a separate renew.
+create or replace function public.reopen_extended_forms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'expired'
+    and new.status = 'expired'
+    and new.expire_at is distinct from old.expire_at
+    and (new.expire_at is null or new.expire_at > now()) then
+    new.status := 'live';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists forms_reopen_extended on public.forms;
+create trigger forms_reopen_extended
+  before update of expire_at on public.forms
+  for each row execute function public.reopen_extended_forms();
@@ -0,0 +1,12 @@
+-- Archiving self-fills (and duplicate fills before that) left some fillers
+-- with fill badges they no longer have the fills for. Badges from before
+-- verification were earned by counting every fill, so they're rechecked
+-- against all remaining fills rather than verified ones only.
+delete from public.user_badges ub
+using (values (1, 'First Form Filled'), (5, 'Form Enthusiast'), (10, 'Form Master')) as b(threshold, badge_name)
+where ub.badge_name = b.badge_name
+  and (
+    select count(*)
+    from public.form_fills ff
+    where ff.user_id = ub.user_id
+  ) < b.threshold;
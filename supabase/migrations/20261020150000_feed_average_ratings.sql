@@ -0,0 +1,229 @@
+-- Average ratings only count fills that have a rating. Fills recorded by a
+-- return link arrive unrated, and counting them as zero pulled averages down.
+
+-- Every form the feed would show for these filters, one row per repost
+-- group, unsorted and unpaged
+create or replace function public.feed_matches(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_hide_filled boolean default false,
+  p_for_you boolean default false
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  relevance double precision
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query,
+      nullif(trim(p_search), '') as raw
+  ),
+  visible as (
+    select
+      f.*,
+      coalesce(p.name, 'Unknown User') as author_name,
+      -- Reposts of the same survey share a group: same external form ID, or
+      -- the same poster reusing the same title
+      coalesce(
+        f.external_form_id,
+        f.user_id::text || ':' || trim(regexp_replace(lower(f.title), '[^a-z0-9]+', ' ', 'g'))
+      ) as group_key,
+      stats.fill_count,
+      stats.rating_sum,
+      stats.rating_count,
+      mine.id as my_fill_id,
+      mine.rating as my_rating,
+      mine.created_at as my_filled_at
+    from public.forms f
+    left join lateral (
+      select
+        count(*)::integer as fill_count,
+        coalesce(sum(ff.rating), 0)::double precision as rating_sum,
+        count(ff.rating)::integer as rating_count
+      from public.form_fills ff
+      where ff.form_id = f.id
+    ) stats on true
+    left join lateral (
+      select ff.id, ff.rating, ff.created_at
+      from public.form_fills ff
+      where ff.form_id = f.id and ff.user_id = auth.uid()
+      order by ff.created_at desc
+      limit 1
+    ) mine on true
+    left join public.profiles p on p.id = f.user_id
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+      and (
+        not p_for_you
+        or (
+          f.status = 'live'
+          and f.user_id is distinct from auth.uid()
+          and not exists (
+            select 1 from public.form_fills mine
+            where mine.form_id = f.id and mine.user_id = auth.uid()
+          )
+        )
+      )
+  ),
+  collapsed as (
+    select
+      v.*,
+      row_number() over (partition by v.group_key order by v.created_at desc, v.id desc) as group_rank,
+      sum(v.fill_count) over (partition by v.group_key)::integer as group_fill_count,
+      sum(v.rating_sum) over (partition by v.group_key) as group_rating_sum,
+      sum(v.rating_count) over (partition by v.group_key) as group_rating_count,
+      first_value(v.my_fill_id) over latest_fill as group_my_fill_id,
+      first_value(v.my_rating) over latest_fill as group_my_rating,
+      first_value(v.my_filled_at) over latest_fill as group_my_filled_at
+    from visible v
+    window latest_fill as (partition by v.group_key order by v.my_filled_at desc nulls last)
+  ),
+  matched as (
+    select
+      c.*,
+      coalesce(c.search_vector, ''::tsvector) || setweight(to_tsvector('simple', c.author_name), 'C') as document
+    from collapsed c
+    where c.group_rank = 1
+      and (not p_hide_filled or c.group_my_fill_id is null)
+  )
+  select
+    m.id,
+    m.user_id,
+    m.title,
+    m.description,
+    m.form_url,
+    m.provider,
+    m.external_form_id,
+    m.tags,
+    m.status,
+    m.created_at,
+    m.expire_at,
+    m.closed_at,
+    m.target_responses,
+    m.eligible_occupations,
+    m.eligible_countries,
+    m.min_age,
+    m.max_age,
+    m.estimated_minutes,
+    m.question_count,
+    m.author_name,
+    m.group_fill_count as fill_count,
+    case when m.group_rating_count > 0 then m.group_rating_sum / m.group_rating_count else 0 end as average_rating,
+    m.group_my_fill_id as my_fill_id,
+    m.group_my_rating as my_rating,
+    m.group_my_filled_at as my_filled_at,
+    case when s.raw is null then 0
+      else ts_rank_cd(m.document, s.query) + 0.5 * word_similarity(s.raw, m.title)
+    end::double precision as relevance
+  from matched m
+  cross join search s
+  where (
+      s.raw is null
+      or m.document @@ s.query
+      -- Typo tolerance: close enough to a word in the title
+      or word_similarity(s.raw, m.title) >= 0.5
+    )
+    and (p_include_tags is null or coalesce(m.tags, '{}') @> p_include_tags)
+    and (p_any_tags is null or coalesce(m.tags, '{}') && p_any_tags)
+    and (p_exclude_tags is null or not coalesce(m.tags, '{}') && p_exclude_tags)
+    and (p_provider is null or m.provider = p_provider)
+    and (p_min_minutes is null or m.estimated_minutes >= p_min_minutes)
+    and (p_max_minutes is null or m.estimated_minutes <= p_max_minutes)
+    -- Eligibility: a missing participant attribute never excludes a form
+    and (
+      p_occupation is null
+      or coalesce(cardinality(m.eligible_occupations), 0) = 0
+      or p_occupation = any(m.eligible_occupations)
+    )
+    and (
+      p_country is null
+      or coalesce(cardinality(m.eligible_countries), 0) = 0
+      or lower(trim(p_country)) in (select lower(trim(country)) from unnest(m.eligible_countries) as country)
+    )
+    and (p_age is null or m.min_age is null or p_age >= m.min_age)
+    and (p_age is null or m.max_age is null or p_age <= m.max_age);
+$$;
+
+-- Fill count and average rating for the given forms, pooled across reposts
+-- exactly as feed_page does so live updates match what a reload would show
+create or replace function public.feed_form_stats(
+  p_form_ids uuid[],
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[]
+)
+returns table (
+  id uuid,
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  with grouped as (
+    select
+      f.id,
+      coalesce(
+        f.external_form_id,
+        f.user_id::text || ':' || trim(regexp_replace(lower(f.title), '[^a-z0-9]+', ' ', 'g'))
+      ) as group_key
+    from public.forms f
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+  ),
+  wanted as (
+    select g.* from grouped g
+    where g.group_key in (select w.group_key from grouped w where w.id = any(p_form_ids))
+  ),
+  group_stats as (
+    select
+      w.group_key,
+      count(ff.id)::integer as fill_count,
+      coalesce(sum(ff.rating), 0)::double precision as rating_sum,
+      count(ff.rating)::integer as rating_count
+    from wanted w
+    left join public.form_fills ff on ff.form_id = w.id
+    group by w.group_key
+  )
+  select
+    w.id,
+    s.fill_count,
+    case when s.rating_count > 0 then s.rating_sum / s.rating_count else 0 end as average_rating
+  from wanted w
+  join group_stats s on s.group_key = w.group_key
+  where w.id = any(p_form_ids);
+$$;
@@ -0,0 +1,429 @@
+-- Repost groups, reworked. The grouping rule lives in form_group_key and
+-- each form stores its group when it's saved: a form joins the group of the
+-- earliest form with the same external form ID, or by the same poster with
+-- a near-identical title (same words, ignoring case and punctuation). The
+-- feed now filters first and then shows each group's newest matching copy,
+-- so a group no longer disappears when only an older copy matches, and
+-- pooled fill stats are only worked out for the groups being shown.
+
+-- Lower-case words only, so "Student Sleep Survey!" and "student sleep survey" match
+create or replace function public.form_title_key(p_title text)
+returns text
+language sql
+immutable
+as $$
+  select trim(regexp_replace(lower(coalesce(p_title, '')), '[^a-z0-9]+', ' ', 'g'));
+$$;
+
+alter table public.forms add column if not exists group_key text;
+
+create index if not exists forms_group_key_idx on public.forms (group_key);
+create index if not exists forms_user_title_key_idx on public.forms (user_id, public.form_title_key(title));
+
+create or replace function public.form_group_key(
+  p_form_id uuid,
+  p_user_id uuid,
+  p_title text,
+  p_external_form_id text
+)
+returns text
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select f.group_key
+      from public.forms f
+      where f.id <> p_form_id
+        and f.group_key is not null
+        and (
+          f.external_form_id = p_external_form_id
+          or (
+            f.user_id = p_user_id
+            and public.form_title_key(p_title) <> ''
+            and public.form_title_key(f.title) = public.form_title_key(p_title)
+          )
+        )
+      order by f.created_at, f.id
+      limit 1
+    ),
+    p_form_id::text
+  );
+$$;
+
+-- Runs as the owner so every earlier copy is considered, whoever can see it
+create or replace function public.set_form_group_key()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.group_key := public.form_group_key(new.id, new.user_id, new.title, new.external_form_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists forms_set_group_key on public.forms;
+create trigger forms_set_group_key
+  before insert on public.forms
+  for each row execute function public.set_form_group_key();
+
+drop trigger if exists forms_update_group_key on public.forms;
+create trigger forms_update_group_key
+  before update of title, external_form_id, user_id on public.forms
+  for each row
+  when (
+    old.title is distinct from new.title
+    or old.external_form_id is distinct from new.external_form_id
+    or old.user_id is distinct from new.user_id
+  )
+  execute function public.set_form_group_key();
+
+-- Oldest first, so reposts find the group their original already started
+do $$
+declare
+  v_form record;
+begin
+  for v_form in
+    select id from public.forms where group_key is null order by created_at, id
+  loop
+    update public.forms f
+    set group_key = public.form_group_key(f.id, f.user_id, f.title, f.external_form_id)
+    where f.id = v_form.id;
+  end loop;
+end;
+$$;
+
+alter table public.forms alter column group_key set not null;
+
+-- Fill count and average rating for a repost group, pooled across its
+-- copies with the given statuses
+create or replace function public.feed_group_stats(
+  p_group_key text,
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[]
+)
+returns table (
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  select
+    count(ff.id)::integer as fill_count,
+    coalesce(avg(ff.rating), 0)::double precision as average_rating
+  from public.forms g
+  join public.form_fills ff on ff.form_id = g.id
+  where g.group_key = p_group_key
+    and g.deleted_at is null
+    and g.status = any(p_statuses);
+$$;
+
+-- The return type changes, so feed_matches is recreated rather than replaced
+drop function if exists public.feed_matches(
+  public.form_status[], text, text[], text[], text[], public.form_provider, integer, integer,
+  text, text, integer, boolean, boolean
+);
+
+-- Every form the feed would show for these filters: the newest matching
+-- copy of each repost group, unsorted and unpaged. Fill stats are left to
+-- feed_group_stats so callers only pay for them where they need them.
+create or replace function public.feed_matches(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_hide_filled boolean default false,
+  p_for_you boolean default false
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  group_key text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  relevance double precision
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query,
+      nullif(trim(p_search), '') as raw
+  ),
+  matched as (
+    select
+      f.*,
+      d.author_name,
+      case when s.raw is null then 0
+        else ts_rank_cd(d.document, s.query) + 0.5 * word_similarity(s.raw, f.title)
+      end::double precision as relevance
+    from public.forms f
+    left join public.profiles p on p.id = f.user_id
+    cross join search s
+    cross join lateral (
+      select
+        coalesce(p.name, 'Unknown User') as author_name,
+        coalesce(f.search_vector, ''::tsvector) || setweight(to_tsvector('simple', coalesce(p.name, 'Unknown User')), 'C') as document
+    ) d
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+      and (not p_for_you or (f.status = 'live' and f.user_id is distinct from auth.uid()))
+      and (
+        s.raw is null
+        or d.document @@ s.query
+        -- Typo tolerance: close enough to a word in the title
+        or word_similarity(s.raw, f.title) >= 0.5
+      )
+      and (p_include_tags is null or coalesce(f.tags, '{}') @> p_include_tags)
+      and (p_any_tags is null or coalesce(f.tags, '{}') && p_any_tags)
+      and (p_exclude_tags is null or not coalesce(f.tags, '{}') && p_exclude_tags)
+      and (p_provider is null or f.provider = p_provider)
+      and (p_min_minutes is null or f.estimated_minutes >= p_min_minutes)
+      and (p_max_minutes is null or f.estimated_minutes <= p_max_minutes)
+      -- Eligibility: a missing participant attribute never excludes a form
+      and (
+        p_occupation is null
+        or coalesce(cardinality(f.eligible_occupations), 0) = 0
+        or p_occupation = any(f.eligible_occupations)
+      )
+      and (
+        p_country is null
+        or coalesce(cardinality(f.eligible_countries), 0) = 0
+        or lower(trim(p_country)) in (select lower(trim(country)) from unnest(f.eligible_countries) as country)
+      )
+      and (p_age is null or f.min_age is null or p_age >= f.min_age)
+      and (p_age is null or f.max_age is null or p_age <= f.max_age)
+  ),
+  -- Ranked after filtering, so each group is represented by its newest copy that matches
+  newest as (
+    select distinct on (m.group_key) m.*
+    from matched m
+    order by m.group_key, m.created_at desc, m.id desc
+  )
+  select
+    n.id,
+    n.user_id,
+    n.title,
+    n.description,
+    n.form_url,
+    n.provider,
+    n.external_form_id,
+    n.group_key,
+    n.tags,
+    n.status,
+    n.created_at,
+    n.expire_at,
+    n.closed_at,
+    n.target_responses,
+    n.eligible_occupations,
+    n.eligible_countries,
+    n.min_age,
+    n.max_age,
+    n.estimated_minutes,
+    n.question_count,
+    n.author_name,
+    mine.id as my_fill_id,
+    mine.rating as my_rating,
+    mine.created_at as my_filled_at,
+    n.relevance
+  from newest n
+  -- The signed-in user's latest fill on any copy of the form
+  left join lateral (
+    select ff.id, ff.rating, ff.created_at
+    from public.form_fills ff
+    join public.forms g on g.id = ff.form_id
+    where ff.user_id = auth.uid()
+      and g.group_key = n.group_key
+    order by ff.created_at desc
+    limit 1
+  ) mine on true
+  -- For You only suggests surveys the user hasn't filled in any copy
+  where not ((p_hide_filled or p_for_you) and mine.id is not null);
+$$;
+
+create or replace function public.feed_page(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_hide_filled boolean default false,
+  p_sort text default 'newest',
+  p_cursor_key double precision default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  -- The signed-in user's fill on any copy of this form, if they have one
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  sort_key double precision,
+  -- Matched terms are wrapped in \x02 ... \x03 so clients can mark them up safely
+  title_highlight text,
+  description_highlight text
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query
+  ),
+  keyed as (
+    select
+      r.*,
+      stats.fill_count,
+      -- Every sort is expressed as a descending key so one keyset condition covers them all
+      case p_sort
+        when 'relevance' then r.relevance
+        when 'for_you' then public.recommendation_score(
+          r.tags, r.user_id, r.expire_at, stats.fill_count, r.target_responses
+        )
+        when 'oldest' then -extract(epoch from r.created_at)
+        when 'rating' then stats.average_rating
+        when 'expiring' then coalesce(-extract(epoch from r.expire_at), -1e12)
+        -- Forms without a target sort last; completed goals after those still collecting
+        when 'goal' then case
+          when r.target_responses is null then -1
+          when stats.fill_count >= r.target_responses then -0.5
+          else stats.fill_count * 100.0 / r.target_responses
+        end
+        when 'quickest' then coalesce(-r.estimated_minutes, -1e6)
+        else extract(epoch from r.created_at)
+      end::double precision as sort_key
+    from public.feed_matches(
+      p_statuses, p_search, p_include_tags, p_any_tags, p_exclude_tags, p_provider,
+      p_min_minutes, p_max_minutes, p_occupation, p_country, p_age, p_hide_filled,
+      p_sort = 'for_you'
+    ) r
+    -- Only the sorts that rank by fill stats need them for every match
+    left join lateral public.feed_group_stats(r.group_key, p_statuses) stats
+      on p_sort in ('for_you', 'rating', 'goal')
+  ),
+  page as (
+    select k.*
+    from keyed k
+    where p_cursor_key is null
+      or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+    order by k.sort_key desc, k.id desc
+    limit least(greatest(p_limit, 1), 100)
+  )
+  -- Stats and highlighting run after the limit so only one page of rows pays for them
+  select
+    page.id,
+    page.user_id,
+    page.title,
+    page.description,
+    page.form_url,
+    page.provider,
+    page.external_form_id,
+    page.tags,
+    page.status,
+    page.created_at,
+    page.expire_at,
+    page.closed_at,
+    page.target_responses,
+    page.eligible_occupations,
+    page.eligible_countries,
+    page.min_age,
+    page.max_age,
+    page.estimated_minutes,
+    page.question_count,
+    page.author_name,
+    stats.fill_count,
+    stats.average_rating,
+    page.my_fill_id,
+    page.my_rating,
+    page.my_filled_at,
+    page.sort_key,
+    case when s.query is null then page.title
+      else ts_headline('english', page.title, s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as title_highlight,
+    case when s.query is null then page.description
+      else ts_headline('english', coalesce(page.description, ''), s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as description_highlight
+  from page
+  cross join lateral public.feed_group_stats(page.group_key, p_statuses) stats
+  cross join search s
+  order by page.sort_key desc, page.id desc;
+$$;
+
+-- Fill count and average rating for the given forms, pooled across reposts
+-- exactly as feed_page does so live updates match what a reload would show
+create or replace function public.feed_form_stats(
+  p_form_ids uuid[],
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[]
+)
+returns table (
+  id uuid,
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  select f.id, stats.fill_count, stats.average_rating
+  from public.forms f
+  cross join lateral public.feed_group_stats(f.group_key, p_statuses) stats
+  where f.id = any(p_form_ids)
+    and f.deleted_at is null
+    and f.status = any(p_statuses);
+$$;
@@ -0,0 +1,65 @@
+-- On forms that verify fills (a completion code or a return link), only
+-- verified fills count as responses: toward fill counts, ratings, goal
+-- progress and closing at the target. Forms without either keep counting
+-- every fill.
+create or replace function public.fill_counts_as_response(
+  p_verified boolean,
+  p_has_completion_code boolean,
+  p_return_link_enabled boolean
+)
+returns boolean
+language sql
+immutable
+as $$
+  select p_verified or not (p_has_completion_code or p_return_link_enabled);
+$$;
+
+create or replace function public.feed_group_stats(
+  p_group_key text,
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[]
+)
+returns table (
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  select
+    count(ff.id)::integer as fill_count,
+    coalesce(avg(ff.rating), 0)::double precision as average_rating
+  from public.forms g
+  join public.form_fills ff on ff.form_id = g.id
+  where g.group_key = p_group_key
+    and g.deleted_at is null
+    and g.status = any(p_statuses)
+    and public.fill_counts_as_response(ff.verified, g.has_completion_code, g.return_link_enabled);
+$$;
+
+create or replace function public.close_forms_at_target()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.forms f
+  set status = 'closed', closed_at = now(), updated_at = now()
+  where f.id = new.form_id
+    and f.status = 'live'
+    and f.target_responses is not null
+    and (
+      select count(*)
+      from public.form_fills ff
+      where ff.form_id = new.form_id
+        and public.fill_counts_as_response(ff.verified, f.has_completion_code, f.return_link_enabled)
+    ) >= f.target_responses;
+  return new;
+end;
+$$;
+
+-- Fills on verifying forms start counting when they're verified
+drop trigger if exists form_fills_close_forms_at_target on public.form_fills;
+create trigger form_fills_close_forms_at_target
+  after insert or update of verified on public.form_fills
+  for each row execute function public.close_forms_at_target();
@@ -0,0 +1,239 @@
+-- Stable "For You" paging. Scores moved between pages because they used
+-- now() and live fill counts, so forms could repeat or be skipped when
+-- loading more. feed_page now takes the time the first page loaded and
+-- ranks every page as of then: recommendation_score reads the clock and
+-- the user's fills at that time, and the stat-based sorts only count fills
+-- made (and verified) by then. The stats shown on each form stay live.
+drop function if exists public.recommendation_score(text[], uuid, timestamptz, integer, integer);
+
+create or replace function public.recommendation_score(
+  p_tags text[],
+  p_poster_id uuid,
+  p_expire_at timestamptz,
+  p_fill_count integer,
+  p_target_responses integer,
+  p_as_of timestamptz default now()
+)
+returns double precision
+language sql
+stable
+as $$
+  with tag_affinity as (
+    select coalesce(sum(coalesce(ff.rating, 3) / 5.0), 0) as weight
+    from public.form_fills ff
+    join public.forms f on f.id = ff.form_id
+    where ff.user_id = auth.uid()
+      and ff.created_at <= p_as_of
+      and f.tags && p_tags
+  ),
+  poster_affinity as (
+    select
+      -- Forms by this poster the user filled, weighted by their rating
+      coalesce((
+        select sum(coalesce(ff.rating, 3) / 5.0)
+        from public.form_fills ff
+        join public.forms f on f.id = ff.form_id
+        where ff.user_id = auth.uid() and f.user_id = p_poster_id
+          and ff.created_at <= p_as_of
+      ), 0)
+      -- ...plus the poster filling the user's own forms
+      + coalesce((
+        select count(*) * 0.5
+        from public.form_fills ff
+        join public.forms f on f.id = ff.form_id
+        where ff.user_id = p_poster_id and f.user_id = auth.uid()
+          and ff.created_at <= p_as_of
+      ), 0) as weight
+  )
+  select
+    ln(1 + t.weight)
+    + 0.8 * ln(1 + p.weight)
+    -- Closing within three days
+    + 0.5 * case
+      when p_expire_at is null or p_expire_at <= p_as_of then 0
+      else greatest(0, 1 - extract(epoch from p_expire_at - p_as_of) / (3 * 86400))
+    end
+    -- Far from its target, or few responses when there is no target
+    + 0.5 * case
+      when p_target_responses is not null then greatest(0, 1 - p_fill_count::double precision / p_target_responses)
+      else 1.0 / (1 + p_fill_count)
+    end
+  from tag_affinity t, poster_affinity p;
+$$;
+
+drop function if exists public.feed_group_stats(text, public.form_status[]);
+
+-- Fill count and average rating for a repost group, pooled across its
+-- copies with the given statuses. With p_as_of, only fills that counted
+-- at that time.
+create or replace function public.feed_group_stats(
+  p_group_key text,
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_as_of timestamptz default null
+)
+returns table (
+  fill_count integer,
+  average_rating double precision
+)
+language sql
+stable
+as $$
+  select
+    count(ff.id)::integer as fill_count,
+    coalesce(avg(ff.rating), 0)::double precision as average_rating
+  from public.forms g
+  join public.form_fills ff on ff.form_id = g.id
+  where g.group_key = p_group_key
+    and g.deleted_at is null
+    and g.status = any(p_statuses)
+    and (p_as_of is null or ff.created_at <= p_as_of)
+    and public.fill_counts_as_response(
+      ff.verified and (p_as_of is null or ff.verified_at <= p_as_of),
+      g.has_completion_code,
+      g.return_link_enabled
+    );
+$$;
+
+-- The arguments change, so feed_page is recreated rather than replaced
+drop function if exists public.feed_page(
+  public.form_status[], text, text[], text[], text[], public.form_provider, integer, integer,
+  text, text, integer, boolean, text, double precision, uuid, integer
+);
+
+create or replace function public.feed_page(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_hide_filled boolean default false,
+  p_sort text default 'newest',
+  p_cursor_key double precision default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_as_of timestamptz default null
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  -- The signed-in user's fill on any copy of this form, if they have one
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  sort_key double precision,
+  -- Matched terms are wrapped in \x02 ... \x03 so clients can mark them up safely
+  title_highlight text,
+  description_highlight text
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query
+  ),
+  keyed as (
+    select
+      r.*,
+      stats.fill_count,
+      -- Every sort is expressed as a descending key so one keyset condition covers them all
+      case p_sort
+        when 'relevance' then r.relevance
+        when 'for_you' then public.recommendation_score(
+          r.tags, r.user_id, r.expire_at, stats.fill_count, r.target_responses, coalesce(p_as_of, now())
+        )
+        when 'oldest' then -extract(epoch from r.created_at)
+        when 'rating' then stats.average_rating
+        when 'expiring' then coalesce(-extract(epoch from r.expire_at), -1e12)
+        -- Forms without a target sort last; completed goals after those still collecting
+        when 'goal' then case
+          when r.target_responses is null then -1
+          when stats.fill_count >= r.target_responses then -0.5
+          else stats.fill_count * 100.0 / r.target_responses
+        end
+        when 'quickest' then coalesce(-r.estimated_minutes, -1e6)
+        else extract(epoch from r.created_at)
+      end::double precision as sort_key
+    from public.feed_matches(
+      p_statuses, p_search, p_include_tags, p_any_tags, p_exclude_tags, p_provider,
+      p_min_minutes, p_max_minutes, p_occupation, p_country, p_age, p_hide_filled,
+      p_sort = 'for_you'
+    ) r
+    -- Only the sorts that rank by fill stats need them for every match. They
+    -- rank by the stats as of the first page so later pages line up with it.
+    left join lateral public.feed_group_stats(r.group_key, p_statuses, p_as_of) stats
+      on p_sort in ('for_you', 'rating', 'goal')
+  ),
+  page as (
+    select k.*
+    from keyed k
+    where p_cursor_key is null
+      or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+    order by k.sort_key desc, k.id desc
+    limit least(greatest(p_limit, 1), 100)
+  )
+  -- Stats and highlighting run after the limit so only one page of rows pays for them
+  select
+    page.id,
+    page.user_id,
+    page.title,
+    page.description,
+    page.form_url,
+    page.provider,
+    page.external_form_id,
+    page.tags,
+    page.status,
+    page.created_at,
+    page.expire_at,
+    page.closed_at,
+    page.target_responses,
+    page.eligible_occupations,
+    page.eligible_countries,
+    page.min_age,
+    page.max_age,
+    page.estimated_minutes,
+    page.question_count,
+    page.author_name,
+    stats.fill_count,
+    stats.average_rating,
+    page.my_fill_id,
+    page.my_rating,
+    page.my_filled_at,
+    page.sort_key,
+    case when s.query is null then page.title
+      else ts_headline('english', page.title, s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as title_highlight,
+    case when s.query is null then page.description
+      else ts_headline('english', coalesce(page.description, ''), s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as description_highlight
+  from page
+  cross join lateral public.feed_group_stats(page.group_key, p_statuses) stats
+  cross join search s
+  order by page.sort_key desc, page.id desc;
+$$;
@@ -0,0 +1,157 @@
+-- Search tags and poster names with the same English config as the query.
+-- They were indexed with 'simple', so the stemmed query terms ("alic" for
+-- "alice", "psycholog" for "psychology") never matched them and only title
+-- and description words were searchable.
+create or replace function public.form_search_vector(title text, description text, tags text[])
+returns tsvector
+language sql
+stable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B');
+$$;
+
+update public.forms set search_vector = public.form_search_vector(title, description, tags);
+
+create or replace function public.feed_matches(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_occupation text default null,
+  p_country text default null,
+  p_age integer default null,
+  p_hide_filled boolean default false,
+  p_for_you boolean default false
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  group_key text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  relevance double precision
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query,
+      nullif(trim(p_search), '') as raw
+  ),
+  matched as (
+    select
+      f.*,
+      d.author_name,
+      case when s.raw is null then 0
+        else ts_rank_cd(d.document, s.query) + 0.5 * word_similarity(s.raw, f.title)
+      end::double precision as relevance
+    from public.forms f
+    left join public.profiles p on p.id = f.user_id
+    cross join search s
+    cross join lateral (
+      select
+        coalesce(p.name, 'Unknown User') as author_name,
+        coalesce(f.search_vector, ''::tsvector) || setweight(to_tsvector('english', coalesce(p.name, 'Unknown User')), 'C') as document
+    ) d
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+      and (not p_for_you or (f.status = 'live' and f.user_id is distinct from auth.uid()))
+      and (
+        s.raw is null
+        or d.document @@ s.query
+        -- Typo tolerance: close enough to a word in the title
+        or word_similarity(s.raw, f.title) >= 0.5
+      )
+      and (p_include_tags is null or coalesce(f.tags, '{}') @> p_include_tags)
+      and (p_any_tags is null or coalesce(f.tags, '{}') && p_any_tags)
+      and (p_exclude_tags is null or not coalesce(f.tags, '{}') && p_exclude_tags)
+      and (p_provider is null or f.provider = p_provider)
+      and (p_min_minutes is null or f.estimated_minutes >= p_min_minutes)
+      and (p_max_minutes is null or f.estimated_minutes <= p_max_minutes)
+      -- Eligibility: a missing participant attribute never excludes a form
+      and (
+        p_occupation is null
+        or coalesce(cardinality(f.eligible_occupations), 0) = 0
+        or p_occupation = any(f.eligible_occupations)
+      )
+      and (
+        p_country is null
+        or coalesce(cardinality(f.eligible_countries), 0) = 0
+        or lower(trim(p_country)) in (select lower(trim(country)) from unnest(f.eligible_countries) as country)
+      )
+      and (p_age is null or f.min_age is null or p_age >= f.min_age)
+      and (p_age is null or f.max_age is null or p_age <= f.max_age)
+  ),
+  -- Ranked after filtering, so each group is represented by its newest copy that matches
+  newest as (
+    select distinct on (m.group_key) m.*
+    from matched m
+    order by m.group_key, m.created_at desc, m.id desc
+  )
+  select
+    n.id,
+    n.user_id,
+    n.title,
+    n.description,
+    n.form_url,
+    n.provider,
+    n.external_form_id,
+    n.group_key,
+    n.tags,
+    n.status,
+    n.created_at,
+    n.expire_at,
+    n.closed_at,
+    n.target_responses,
+    n.eligible_occupations,
+    n.eligible_countries,
+    n.min_age,
+    n.max_age,
+    n.estimated_minutes,
+    n.question_count,
+    n.author_name,
+    mine.id as my_fill_id,
+    mine.rating as my_rating,
+    mine.created_at as my_filled_at,
+    n.relevance
+  from newest n
+  -- The signed-in user's latest fill on any copy of the form
+  left join lateral (
+    select ff.id, ff.rating, ff.created_at
+    from public.form_fills ff
+    join public.forms g on g.id = ff.form_id
+    where ff.user_id = auth.uid()
+      and g.group_key = n.group_key
+    order by ff.created_at desc
+    limit 1
+  ) mine on true
+  -- For You only suggests surveys the user hasn't filled in any copy
+  where not ((p_hide_filled or p_for_you) and mine.id is not null);
+$$;
@@ -0,0 +1,395 @@
+-- Participant attributes (occupation, country, birth year) move out of the
+-- world-readable profiles table into one only their owner can read. The
+-- feed no longer takes them from the client: its "eligible only" filter
+-- matches forms against the caller's own attributes in meets_eligibility.
+create table if not exists public.participant_attributes (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  occupation text,
+  country text,
+  birth_year integer check (birth_year is null or birth_year between 1900 and 2100),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.participant_attributes enable row level security;
+
+drop policy if exists "Users can view their own attributes" on public.participant_attributes;
+create policy "Users can view their own attributes"
+  on public.participant_attributes for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can add their own attributes" on public.participant_attributes;
+create policy "Users can add their own attributes"
+  on public.participant_attributes for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own attributes" on public.participant_attributes;
+create policy "Users can update their own attributes"
+  on public.participant_attributes for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'profiles' and column_name = 'occupation'
+  ) then
+    insert into public.participant_attributes (user_id, occupation, country, birth_year)
+    select id, occupation, country, birth_year
+    from public.profiles
+    where occupation is not null or country is not null or birth_year is not null
+    on conflict (user_id) do nothing;
+  end if;
+end;
+$$;
+
+alter table public.profiles drop column if exists occupation;
+alter table public.profiles drop column if exists country;
+alter table public.profiles drop column if exists birth_year;
+
+-- Whether the signed-in user fits a form's audience. Reads only the
+-- caller's own attributes; one they haven't filled in never excludes them.
+create or replace function public.meets_eligibility(
+  p_occupations text[],
+  p_countries text[],
+  p_min_age integer,
+  p_max_age integer
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select
+      (
+        a.occupation is null
+        or coalesce(cardinality(p_occupations), 0) = 0
+        or a.occupation = any(p_occupations)
+      )
+      and (
+        a.country is null
+        or coalesce(cardinality(p_countries), 0) = 0
+        or lower(trim(a.country)) in (select lower(trim(country)) from unnest(p_countries) as country)
+      )
+      and (a.birth_year is null or p_min_age is null or extract(year from now()) - a.birth_year >= p_min_age)
+      and (a.birth_year is null or p_max_age is null or extract(year from now()) - a.birth_year <= p_max_age)
+    from public.participant_attributes a
+    where a.user_id = auth.uid()
+  ), true);
+$$;
+
+-- The arguments change, so the feed functions are recreated rather than replaced
+drop function if exists public.feed_page(
+  public.form_status[], text, text[], text[], text[], public.form_provider, integer, integer,
+  text, text, integer, boolean, text, double precision, uuid, integer, timestamptz
+);
+drop function if exists public.feed_tag_counts(
+  public.form_status[], text, text[], text[], text[], public.form_provider, integer, integer,
+  text, text, integer, boolean, boolean
+);
+drop function if exists public.feed_matches(
+  public.form_status[], text, text[], text[], text[], public.form_provider, integer, integer,
+  text, text, integer, boolean, boolean
+);
+
+-- Every form the feed would show for these filters: the newest matching
+-- copy of each repost group, unsorted and unpaged. Fill stats are left to
+-- feed_group_stats so callers only pay for them where they need them.
+create or replace function public.feed_matches(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_eligible_only boolean default false,
+  p_hide_filled boolean default false,
+  p_for_you boolean default false
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  group_key text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  relevance double precision
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query,
+      nullif(trim(p_search), '') as raw
+  ),
+  matched as (
+    select
+      f.*,
+      d.author_name,
+      case when s.raw is null then 0
+        else ts_rank_cd(d.document, s.query) + 0.5 * word_similarity(s.raw, f.title)
+      end::double precision as relevance
+    from public.forms f
+    left join public.profiles p on p.id = f.user_id
+    cross join search s
+    cross join lateral (
+      select
+        coalesce(p.name, 'Unknown User') as author_name,
+        coalesce(f.search_vector, ''::tsvector) || setweight(to_tsvector('english', coalesce(p.name, 'Unknown User')), 'C') as document
+    ) d
+    where f.deleted_at is null
+      and f.status = any(p_statuses)
+      and (not p_for_you or (f.status = 'live' and f.user_id is distinct from auth.uid()))
+      and (
+        s.raw is null
+        or d.document @@ s.query
+        -- Typo tolerance: close enough to a word in the title
+        or word_similarity(s.raw, f.title) >= 0.5
+      )
+      and (p_include_tags is null or coalesce(f.tags, '{}') @> p_include_tags)
+      and (p_any_tags is null or coalesce(f.tags, '{}') && p_any_tags)
+      and (p_exclude_tags is null or not coalesce(f.tags, '{}') && p_exclude_tags)
+      and (p_provider is null or f.provider = p_provider)
+      and (p_min_minutes is null or f.estimated_minutes >= p_min_minutes)
+      and (p_max_minutes is null or f.estimated_minutes <= p_max_minutes)
+      and (
+        not p_eligible_only
+        or public.meets_eligibility(f.eligible_occupations, f.eligible_countries, f.min_age, f.max_age)
+      )
+  ),
+  -- Ranked after filtering, so each group is represented by its newest copy that matches
+  newest as (
+    select distinct on (m.group_key) m.*
+    from matched m
+    order by m.group_key, m.created_at desc, m.id desc
+  )
+  select
+    n.id,
+    n.user_id,
+    n.title,
+    n.description,
+    n.form_url,
+    n.provider,
+    n.external_form_id,
+    n.group_key,
+    n.tags,
+    n.status,
+    n.created_at,
+    n.expire_at,
+    n.closed_at,
+    n.target_responses,
+    n.eligible_occupations,
+    n.eligible_countries,
+    n.min_age,
+    n.max_age,
+    n.estimated_minutes,
+    n.question_count,
+    n.author_name,
+    mine.id as my_fill_id,
+    mine.rating as my_rating,
+    mine.created_at as my_filled_at,
+    n.relevance
+  from newest n
+  -- The signed-in user's latest fill on any copy of the form
+  left join lateral (
+    select ff.id, ff.rating, ff.created_at
+    from public.form_fills ff
+    join public.forms g on g.id = ff.form_id
+    where ff.user_id = auth.uid()
+      and g.group_key = n.group_key
+    order by ff.created_at desc
+    limit 1
+  ) mine on true
+  -- For You only suggests surveys the user hasn't filled in any copy
+  where not ((p_hide_filled or p_for_you) and mine.id is not null);
+$$;
+
+create or replace function public.feed_page(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_eligible_only boolean default false,
+  p_hide_filled boolean default false,
+  p_sort text default 'newest',
+  p_cursor_key double precision default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 24,
+  p_as_of timestamptz default null
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  form_url text,
+  provider public.form_provider,
+  external_form_id text,
+  tags text[],
+  status public.form_status,
+  created_at timestamptz,
+  expire_at timestamptz,
+  closed_at timestamptz,
+  target_responses integer,
+  eligible_occupations text[],
+  eligible_countries text[],
+  min_age integer,
+  max_age integer,
+  estimated_minutes integer,
+  question_count integer,
+  author_name text,
+  fill_count integer,
+  average_rating double precision,
+  -- The signed-in user's fill on any copy of this form, if they have one
+  my_fill_id uuid,
+  my_rating integer,
+  my_filled_at timestamptz,
+  sort_key double precision,
+  -- Matched terms are wrapped in \x02 ... \x03 so clients can mark them up safely
+  title_highlight text,
+  description_highlight text
+)
+language sql
+stable
+as $$
+  with search as (
+    select
+      case when nullif(trim(p_search), '') is not null then websearch_to_tsquery('english', p_search) end as query
+  ),
+  keyed as (
+    select
+      r.*,
+      stats.fill_count,
+      -- Every sort is expressed as a descending key so one keyset condition covers them all
+      case p_sort
+        when 'relevance' then r.relevance
+        when 'for_you' then public.recommendation_score(
+          r.tags, r.user_id, r.expire_at, stats.fill_count, r.target_responses, coalesce(p_as_of, now())
+        )
+        when 'oldest' then -extract(epoch from r.created_at)
+        when 'rating' then stats.average_rating
+        when 'expiring' then coalesce(-extract(epoch from r.expire_at), -1e12)
+        -- Forms without a target sort last; completed goals after those still collecting
+        when 'goal' then case
+          when r.target_responses is null then -1
+          when stats.fill_count >= r.target_responses then -0.5
+          else stats.fill_count * 100.0 / r.target_responses
+        end
+        when 'quickest' then coalesce(-r.estimated_minutes, -1e6)
+        else extract(epoch from r.created_at)
+      end::double precision as sort_key
+    from public.feed_matches(
+      p_statuses, p_search, p_include_tags, p_any_tags, p_exclude_tags, p_provider,
+      p_min_minutes, p_max_minutes, p_eligible_only, p_hide_filled,
+      p_sort = 'for_you'
+    ) r
+    -- Only the sorts that rank by fill stats need them for every match. They
+    -- rank by the stats as of the first page so later pages line up with it.
+    left join lateral public.feed_group_stats(r.group_key, p_statuses, p_as_of) stats
+      on p_sort in ('for_you', 'rating', 'goal')
+  ),
+  page as (
+    select k.*
+    from keyed k
+    where p_cursor_key is null
+      or (k.sort_key, k.id) < (p_cursor_key, p_cursor_id)
+    order by k.sort_key desc, k.id desc
+    limit least(greatest(p_limit, 1), 100)
+  )
+  -- Stats and highlighting run after the limit so only one page of rows pays for them
+  select
+    page.id,
+    page.user_id,
+    page.title,
+    page.description,
+    page.form_url,
+    page.provider,
+    page.external_form_id,
+    page.tags,
+    page.status,
+    page.created_at,
+    page.expire_at,
+    page.closed_at,
+    page.target_responses,
+    page.eligible_occupations,
+    page.eligible_countries,
+    page.min_age,
+    page.max_age,
+    page.estimated_minutes,
+    page.question_count,
+    page.author_name,
+    stats.fill_count,
+    stats.average_rating,
+    page.my_fill_id,
+    page.my_rating,
+    page.my_filled_at,
+    page.sort_key,
+    case when s.query is null then page.title
+      else ts_headline('english', page.title, s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as title_highlight,
+    case when s.query is null then page.description
+      else ts_headline('english', coalesce(page.description, ''), s.query, 'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    end as description_highlight
+  from page
+  cross join lateral public.feed_group_stats(page.group_key, p_statuses) stats
+  cross join search s
+  order by page.sort_key desc, page.id desc;
+$$;
+
+-- How many of the feed's current results carry each tag
+create or replace function public.feed_tag_counts(
+  p_statuses public.form_status[] default array['live', 'closed', 'expired']::public.form_status[],
+  p_search text default null,
+  p_include_tags text[] default null,
+  p_any_tags text[] default null,
+  p_exclude_tags text[] default null,
+  p_provider public.form_provider default null,
+  p_min_minutes integer default null,
+  p_max_minutes integer default null,
+  p_eligible_only boolean default false,
+  p_hide_filled boolean default false,
+  p_for_you boolean default false
+)
+returns table (
+  tag text,
+  form_count integer
+)
+language sql
+stable
+as $$
+  select t.tag, count(*)::integer as form_count
+  from public.feed_matches(
+    p_statuses, p_search, p_include_tags, p_any_tags, p_exclude_tags, p_provider,
+    p_min_minutes, p_max_minutes, p_eligible_only, p_hide_filled, p_for_you
+  ) m
+  cross join unnest(m.tags) as t(tag)
+  group by t.tag
+  order by form_count desc, t.tag;
+$$;
@@ -0,0 +1,55 @@
+-- Fill badges follow the same rule as feed counts and the leaderboard
+-- (fill_counts_as_response): verified fills on forms that verify them, and
+-- every fill on forms that don't. Badges used to need verified = true on
+-- every form, so fills on forms without a code or return link never counted.
+create or replace function public.award_fill_badges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_responses integer;
+begin
+  select count(*) into v_responses
+  from public.form_fills ff
+  join public.forms f on f.id = ff.form_id
+  where ff.user_id = new.user_id
+    and public.fill_counts_as_response(ff.verified, f.has_completion_code, f.return_link_enabled);
+
+  insert into public.user_badges (user_id, badge_name)
+  select new.user_id, b.badge_name
+  from (values (1, 'First Form Filled'), (5, 'Form Enthusiast'), (10, 'Form Master')) as b(threshold, badge_name)
+  where v_responses >= b.threshold
+    and not exists (
+      select 1 from public.user_badges ub
+      where ub.user_id = new.user_id and ub.badge_name = b.badge_name
+    );
+
+  return new;
+end;
+$$;
+
+-- Fills on forms that don't verify count as soon as they're inserted
+drop trigger if exists form_fills_award_badges on public.form_fills;
+create trigger form_fills_award_badges
+  after insert or update of verified on public.form_fills
+  for each row
+  execute function public.award_fill_badges();
+
+-- Catch up fillers whose fills on non-verifying forms earned nothing so far
+insert into public.user_badges (user_id, badge_name)
+select r.user_id, b.badge_name
+from (
+  select ff.user_id, count(*) as responses
+  from public.form_fills ff
+  join public.forms f on f.id = ff.form_id
+  where public.fill_counts_as_response(ff.verified, f.has_completion_code, f.return_link_enabled)
+  group by ff.user_id
+) r
+join (values (1, 'First Form Filled'), (5, 'Form Enthusiast'), (10, 'Form Master')) as b(threshold, badge_name)
+  on r.responses >= b.threshold
+where not exists (
+  select 1 from public.user_badges ub
+  where ub.user_id = r.user_id and ub.badge_name = b.badge_name
+);
@@ -0,0 +1,139 @@
+-- Return links, bound to the fill session. The form's return key is the
+-- same for every filler and shows in the address bar once the survey
+-- redirects, so anyone who had filled the form once could reuse it. Each
+-- fill session now also gets its own key, passed to the survey alongside
+-- the token and handed back by the redirect; a return link only completes
+-- the session it was issued for. Posters need to copy the new return link.
+-- Forms that stopped taking responses now report 'closed' instead of
+-- failing on the insert.
+alter table public.fill_sessions add column if not exists return_key text;
+
+-- The return type changes, so open_fill_session is recreated rather than replaced
+drop function if exists public.open_fill_session(uuid);
+
+-- Called when the signed-in user opens a form. Forms using a return link
+-- also get a token and a session key for the survey URL, good for 24 hours.
+create or replace function public.open_fill_session(p_form_id uuid)
+returns table (session_id uuid, return_token text, return_key text)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_form public.forms%rowtype;
+  v_session_id uuid;
+  v_return_key text;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to fill forms';
+  end if;
+
+  select * into v_form
+  from public.forms
+  where id = p_form_id
+    and status = 'live'
+    and closed_at is null
+    and deleted_at is null;
+
+  if v_form.id is null then
+    raise exception 'This form is no longer accepting responses';
+  end if;
+
+  if v_form.return_link_enabled then
+    v_return_key := encode(extensions.gen_random_bytes(16), 'hex');
+  end if;
+
+  insert into public.fill_sessions (form_id, user_id, return_key)
+  values (p_form_id, auth.uid(), v_return_key)
+  returning id into v_session_id;
+
+  return query select
+    v_session_id,
+    case when v_form.return_link_enabled
+      then private.sign_fill_token(p_form_id, auth.uid(), now() + interval '24 hours', v_session_id)
+    end,
+    v_return_key;
+end;
+$$;
+
+drop function if exists public.complete_fill_from_token(text, text);
+
+-- Called from the return link. Records the signed-in user's fill if they
+-- don't have one yet, marks it verified and reports what happened:
+-- 'completed', 'invalid', 'expired', 'wrong_user', 'closed' or 'too_fast'.
+-- A link without the form's return key, or without the key of the session
+-- its token was issued for, is 'invalid'.
+create or replace function public.complete_fill_from_token(p_token text, p_key text, p_session_key text)
+returns table (status text, form_id uuid, fill_id uuid)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_token record;
+  v_fill_id uuid;
+begin
+  select * into v_token from private.read_fill_token(p_token);
+
+  if v_token.status <> 'valid' then
+    return query select v_token.status, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if not exists (
+    select 1 from public.form_return_keys k
+    where k.form_id = v_token.form_id and k.key = p_key
+  ) or not exists (
+    select 1 from public.fill_sessions s
+    where s.id = v_token.session_id
+      and s.form_id = v_token.form_id
+      and s.return_key = p_session_key
+  ) then
+    return query select 'invalid'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  if v_token.user_id is distinct from auth.uid() then
+    return query select 'wrong_user'::text, v_token.form_id, null::uuid;
+    return;
+  end if;
+
+  select ff.id into v_fill_id
+  from public.form_fills ff
+  where ff.form_id = v_token.form_id and ff.user_id = v_token.user_id
+  order by ff.created_at desc
+  limit 1;
+
+  if v_fill_id is null then
+    -- The survey may have closed or expired while the filler was answering it
+    if exists (
+      select 1 from public.forms f
+      where f.id = v_token.form_id
+        and (f.status <> 'live' or f.expire_at < now() or f.closed_at is not null or f.deleted_at is not null)
+    ) then
+      return query select 'closed'::text, v_token.form_id, null::uuid;
+      return;
+    end if;
+
+    begin
+      insert into public.form_fills (form_id, user_id, session_id)
+      values (v_token.form_id, v_token.user_id, v_token.session_id)
+      returning id into v_fill_id;
+    exception when check_violation then
+      return query select 'too_fast'::text, v_token.form_id, null::uuid;
+      return;
+    end;
+  end if;
+
+  -- Verifying as a separate update keeps the badge trigger in the loop
+  perform set_config('app.verifying_fill', 'on', true);
+  update public.form_fills
+  set verified = true, verified_at = now()
+  where id = v_fill_id and not verified;
+  perform set_config('app.verifying_fill', 'off', true);
+
+  return query select 'completed'::text, v_token.form_id, v_fill_id;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Duplicate detection, done in the database. PostForm used to fetch every
+-- live form to compare against. A forms.gle short code also isn't the
+-- form's ID, so the same survey posted by its full link got a different
+-- key; short links now store no external ID and are matched by URL.
+update public.forms
+set external_form_id = null
+where provider = 'google'
+  and form_url ~ '^https?://forms\.gle/'
+  and external_form_id is not null;
+
+create index if not exists forms_form_url_idx on public.forms (form_url);
+create index if not exists forms_title_key_idx on public.forms (public.form_title_key(title));
+
+-- Live posts that look like the survey about to be posted: the same form
+-- on the same provider, the same link, or a near-identical title
+create or replace function public.find_duplicate_forms(
+  p_provider public.form_provider,
+  p_external_form_id text,
+  p_form_url text,
+  p_title text
+)
+returns table (
+  id uuid,
+  title text,
+  user_id uuid,
+  created_at timestamptz,
+  expire_at timestamptz,
+  external_form_id text,
+  same_survey boolean
+)
+language sql
+stable
+as $$
+  select
+    f.id,
+    f.title,
+    f.user_id,
+    f.created_at,
+    f.expire_at,
+    f.external_form_id,
+    (p_external_form_id is not null and f.provider = p_provider and f.external_form_id = p_external_form_id)
+      or f.form_url = p_form_url as same_survey
+  from public.forms f
+  where f.deleted_at is null
+    and f.status = 'live'
+    and (f.expire_at is null or f.expire_at > now())
+    and (
+      (p_external_form_id is not null and f.provider = p_provider and f.external_form_id = p_external_form_id)
+      or f.form_url = p_form_url
+      or (public.form_title_key(p_title) <> '' and public.form_title_key(f.title) = public.form_title_key(p_title))
+      -- "Student Sleep Survey" and "Student Sleep Surveys" match. Trigram similarity of 0.8 is about
+      -- the 0.9 bigram score the client used to check; % narrows the search to the trigram index
+      or (f.title % p_title and similarity(f.title, p_title) >= 0.8)
+    )
+  order by same_survey desc, f.created_at desc
+  limit 20;
+$$;
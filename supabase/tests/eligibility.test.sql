@@ -0,0 +1,56 @@
+-- Participant attributes stay private, and the feed matches forms against the caller's own
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b');
+insert into public.profiles (id, name) values
+  ('00000000-0000-0000-0000-00000000000a', 'Poster'),
+  ('00000000-0000-0000-0000-00000000000b', 'Filler');
+insert into public.forms (id, user_id, title, form_url, eligible_occupations, eligible_countries, min_age, max_age) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Students in Kenya',
+    'https://example.com/students', array['student'], array['Kenya'], 18, 30),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000a', 'Retirees only',
+    'https://example.com/retirees', array['retired'], null, null, null),
+  ('00000000-0000-0000-0000-0000000000f3', '00000000-0000-0000-0000-00000000000a', 'Anyone',
+    'https://example.com/anyone', null, null, null, null);
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+insert into public.participant_attributes (user_id, occupation, country, birth_year)
+values ('00000000-0000-0000-0000-00000000000b', 'student', ' kenya ', extract(year from now())::integer - 22);
+
+do $$
+declare
+  v_ids uuid[];
+begin
+  select array_agg(id order by id) into v_ids from public.feed_page(p_eligible_only => true);
+  assert v_ids = array['00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000f3']::uuid[],
+    format('unexpected eligible forms %s', v_ids);
+  assert (select count(*) from public.feed_page()) = 3, 'the eligibility filter applied without being asked for';
+end;
+$$;
+
+-- Other users and anonymous callers can't read someone's attributes
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+do $$
+begin
+  assert not exists (select 1 from public.participant_attributes), 'another user''s attributes are visible';
+  -- With no attributes of their own, nothing is filtered out
+  assert (select count(*) from public.feed_page(p_eligible_only => true)) = 3,
+    'missing attributes excluded forms';
+end;
+$$;
+
+reset role;
+set role anon;
+set request.jwt.claim.sub = '';
+do $$
+begin
+  assert not exists (select 1 from public.participant_attributes), 'attributes are visible to anonymous callers';
+  assert not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'profiles'
+      and column_name in ('occupation', 'country', 'birth_year')
+  ), 'profiles still carries participant attributes';
+end;
+$$;
+reset role;
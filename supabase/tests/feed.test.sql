@@ -0,0 +1,186 @@
+-- What the feed shows for each form
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-00000000000c');
+insert into public.forms (id, user_id, title, form_url) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Rated form', 'https://example.com/a');
+
+-- One rated fill and one that arrived unrated
+insert into public.fill_sessions (form_id, user_id) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c');
+insert into public.form_fills (form_id, user_id, rating) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 4),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', null);
+
+-- Unrated fills count as fills but not toward the average
+do $$
+declare
+  v_page record;
+  v_stats record;
+begin
+  select * into v_page from public.feed_page();
+  assert v_page.fill_count = 2, format('expected 2 fills, got %s', v_page.fill_count);
+  assert v_page.average_rating = 4, format('expected an average of 4, got %s', v_page.average_rating);
+
+  select * into v_stats from public.feed_form_stats(array['00000000-0000-0000-0000-0000000000f1'::uuid]);
+  assert v_stats.fill_count = 2, format('expected 2 fills, got %s', v_stats.fill_count);
+  assert v_stats.average_rating = 4, format('expected an average of 4, got %s', v_stats.average_rating);
+end;
+$$;
+
+-- Repost groups: the same survey posted again collapses into one feed entry
+insert into public.forms (id, user_id, title, form_url, external_form_id, tags, created_at) values
+  -- Same poster, near-identical title, different survey links
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a', 'Student Sleep Survey',
+    'https://example.com/sleep-1', 'sleep1', array['insomnia'], now() - interval '3 days'),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000000a', 'student sleep survey!',
+    'https://example.com/sleep-2', 'sleep2', array['students'], now() - interval '2 days'),
+  -- Same title from someone else is a different survey
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000000b', 'Student Sleep Survey',
+    'https://example.com/sleep-3', 'sleep3', array['students'], now() - interval '1 day'),
+  -- Same survey link posted by someone else joins the first group
+  ('00000000-0000-0000-0000-0000000000e4', '00000000-0000-0000-0000-00000000000c', 'Sleep study (shared)',
+    'https://example.com/sleep-1', 'sleep1', array['students'], now());
+
+insert into public.fill_sessions (form_id, user_id) values
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000b');
+insert into public.form_fills (form_id, user_id, rating) values
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000b', 5);
+
+do $$
+declare
+  v_ids uuid[];
+begin
+  assert (select count(distinct group_key) from public.forms where id in (
+    '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000e4'
+  )) = 1, 'reposts were not grouped';
+  assert (select group_key from public.forms where id = '00000000-0000-0000-0000-0000000000e3')
+    <> (select group_key from public.forms where id = '00000000-0000-0000-0000-0000000000e1'),
+    'another poster''s form with the same title was grouped';
+
+  -- The group shows its newest copy, with fills pooled across copies
+  select array_agg(id order by id) into v_ids from public.feed_page(p_search => 'sleep');
+  assert v_ids = array['00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-0000000000e4']::uuid[],
+    format('unexpected sleep forms %s', v_ids);
+  assert (select fill_count from public.feed_page(p_search => 'sleep') where id = '00000000-0000-0000-0000-0000000000e4') = 1,
+    'fills were not pooled across the group';
+
+  -- When only an older copy matches the filters, the group shows that copy
+  select array_agg(id order by id) into v_ids from public.feed_page(p_include_tags => array['insomnia']);
+  assert v_ids = array['00000000-0000-0000-0000-0000000000e1']::uuid[],
+    format('unexpected insomnia forms %s', v_ids);
+end;
+$$;
+
+-- On forms that verify fills, only verified fills count, and the goal closes the form once they reach it
+insert into public.forms (id, user_id, title, form_url, target_responses) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', 'Coded goal form', 'https://example.com/coded', 1);
+insert into public.form_completion_codes (form_id, code) values ('00000000-0000-0000-0000-0000000000c1', 'goal-code-1');
+insert into public.fill_sessions (form_id, user_id) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000c');
+insert into public.form_fills (form_id, user_id, rating) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000b', 1),
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000c', 5);
+
+do $$
+declare
+  v_stats record;
+begin
+  assert (select status from public.forms where id = '00000000-0000-0000-0000-0000000000c1') = 'live',
+    'unverified fills closed the form';
+  select * into v_stats from public.feed_form_stats(array['00000000-0000-0000-0000-0000000000c1'::uuid]);
+  assert v_stats.fill_count = 0, format('unverified fills counted: %s', v_stats.fill_count);
+end;
+$$;
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000c';
+select public.verify_form_fill(
+  (select id from public.form_fills where form_id = '00000000-0000-0000-0000-0000000000c1' and user_id = '00000000-0000-0000-0000-00000000000c'),
+  'goal-code-1'
+);
+reset role;
+
+do $$
+declare
+  v_stats record;
+begin
+  select * into v_stats from public.feed_form_stats(
+    array['00000000-0000-0000-0000-0000000000c1'::uuid],
+    array['live', 'closed', 'expired']::public.form_status[]
+  );
+  assert v_stats.fill_count = 1 and v_stats.average_rating = 5,
+    format('expected 1 verified fill rated 5, got %s rated %s', v_stats.fill_count, v_stats.average_rating);
+  assert (select status from public.forms where id = '00000000-0000-0000-0000-0000000000c1') = 'closed',
+    'reaching the goal with verified fills did not close the form';
+end;
+$$;
+
+-- For You pages are ranked as of the first page, so fills made while the user scrolls don't reshuffle them
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000c';
+create temp table for_you_snapshot as
+  select now() as as_of;
+create temp table for_you_first_load as
+  select id, sort_key from public.feed_page(p_sort => 'for_you', p_as_of => (select as_of from for_you_snapshot));
+
+insert into public.fill_sessions (form_id, user_id) values
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000000a');
+-- The test file runs in one transaction, so the later fill is dated by hand
+insert into public.form_fills (form_id, user_id, rating, created_at) values
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000000a', 2, now() + interval '1 minute');
+
+do $$
+declare
+  v_changed integer;
+begin
+  assert (select count(*) from for_you_first_load) > 1, 'expected several For You forms';
+  assert exists (select 1 from for_you_first_load where id = '00000000-0000-0000-0000-0000000000e3'),
+    'expected the newly filled form in For You';
+
+  select count(*) into v_changed
+  from for_you_first_load a
+  full join public.feed_page(p_sort => 'for_you', p_as_of => (select as_of from for_you_snapshot)) b on b.id = a.id
+  where a.sort_key is distinct from b.sort_key;
+  assert v_changed = 0, format('%s For You scores moved within the snapshot', v_changed);
+
+  -- Paging from the first form lands on the rest, in the same order
+  assert (
+    select array_agg(b.id order by b.sort_key desc, b.id desc)
+    from public.feed_page(
+      p_sort => 'for_you',
+      p_cursor_key => (select sort_key from for_you_first_load order by sort_key desc, id desc limit 1),
+      p_cursor_id => (select id from for_you_first_load order by sort_key desc, id desc limit 1),
+      p_as_of => (select as_of from for_you_snapshot)
+    ) b
+  ) = (
+    select array_agg(id order by sort_key desc, id desc)
+    from (select * from for_you_first_load order by sort_key desc, id desc offset 1) rest
+  ), 'the second For You page did not continue the first';
+
+  -- A fresh load sees the new fill
+  assert (select sort_key from public.feed_page(p_sort => 'for_you') where id = '00000000-0000-0000-0000-0000000000e3')
+    < (select sort_key from for_you_first_load where id = '00000000-0000-0000-0000-0000000000e3'),
+    'a fresh load did not count the new fill';
+end;
+$$;
+reset request.jwt.claim.sub;
+
+-- Search finds forms by tag and by the poster's name, not just by title
+insert into public.profiles (id, name) values ('00000000-0000-0000-0000-00000000000b', 'Alice Jones');
+insert into public.forms (id, user_id, title, form_url, tags) values
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000b', 'Commute habits',
+    'https://example.com/commute', array['psychology', 'academic']);
+
+do $$
+declare
+  v_search text;
+begin
+  foreach v_search in array array['alice', 'jones', 'Alice Jones', 'psychology', 'academic', 'commute psychology'] loop
+    assert exists (select 1 from public.feed_page(p_search => v_search) where id = '00000000-0000-0000-0000-0000000000d1'),
+      format('searching "%s" did not find the form', v_search);
+  end loop;
+end;
+$$;
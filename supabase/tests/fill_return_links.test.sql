@@ -0,0 +1,157 @@
+-- Return links: completing a fill needs the signed token, its session's key and the form's return key
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b');
+insert into public.forms (id, user_id, title, form_url, return_link_enabled) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Linked form', 'https://example.com/a', true);
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+insert into public.form_return_keys (form_id, key)
+values ('00000000-0000-0000-0000-0000000000f1', 'posterkey0123456789abcdef');
+
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+
+do $$
+declare
+  v_first record := (select s from public.open_fill_session('00000000-0000-0000-0000-0000000000f1') s);
+  v_session record := (select s from public.open_fill_session('00000000-0000-0000-0000-0000000000f1') s);
+begin
+  assert v_session.return_token is not null and v_session.return_key is not null,
+    'no return token or session key for a form with a return link';
+  assert v_session.return_key <> v_first.return_key, 'two sessions got the same key';
+
+  -- Fillers can't read the key
+  assert not exists (select 1 from public.form_return_keys), 'filler can read the return key';
+
+  -- Opening the return link by hand, with just the token and session key, does nothing
+  assert (select status from public.complete_fill_from_token(v_session.return_token, '', v_session.return_key)) = 'invalid',
+    'completed without the key';
+  assert (select status from public.complete_fill_from_token(v_session.return_token, 'guessedkey0123456789', v_session.return_key)) = 'invalid',
+    'completed with the wrong key';
+
+  -- The form's key alone, without the session's own key, does nothing either
+  assert (select status from public.complete_fill_from_token(v_session.return_token, 'posterkey0123456789abcdef', '')) = 'invalid',
+    'completed without the session key';
+  assert (select status from public.complete_fill_from_token(v_session.return_token, 'posterkey0123456789abcdef', v_first.return_key)) = 'invalid',
+    'completed with another session''s key';
+  assert not exists (select 1 from public.form_fills), 'a fill was recorded without the keys';
+
+  assert (select status from public.complete_fill_from_token(v_session.return_token, 'posterkey0123456789abcdef', v_session.return_key)) = 'completed',
+    'the real return link did not complete the fill';
+  assert (select verified from public.form_fills where user_id = '00000000-0000-0000-0000-00000000000b'),
+    'completed fill is not verified';
+end;
+$$;
+
+reset role;
+
+-- Signing and expiry: valid, expired, tampered and malformed tokens
+do $$
+declare
+  v_form uuid := '00000000-0000-0000-0000-0000000000f1';
+  v_user uuid := '00000000-0000-0000-0000-00000000000b';
+  v_session uuid := gen_random_uuid();
+  v_token text := private.sign_fill_token(v_form, v_user, now() + interval '1 minute', v_session);
+  v_parts text[] := string_to_array(v_token, '.');
+  v_read record;
+begin
+  select * into v_read from private.read_fill_token(v_token);
+  assert v_read.status = 'valid', 'fresh token is not valid';
+  assert v_read.form_id = v_form and v_read.user_id = v_user and v_read.session_id = v_session,
+    'token does not carry what was signed';
+
+  select * into v_read from private.read_fill_token(v_token, now() + interval '2 minutes');
+  assert v_read.status = 'expired', 'token is still valid after it expires';
+
+  -- Another user's id with the original signature
+  v_parts[2] := '00000000-0000-0000-0000-00000000000a';
+  assert (select status from private.read_fill_token(array_to_string(v_parts, '.'))) = 'invalid',
+    'token with a swapped user id is accepted';
+
+  -- A later expiry with the original signature
+  v_parts := string_to_array(v_token, '.');
+  v_parts[3] := (v_parts[3]::bigint + 86400)::text;
+  assert (select status from private.read_fill_token(array_to_string(v_parts, '.'))) = 'invalid',
+    'token with an extended expiry is accepted';
+
+  -- A changed signature
+  v_parts := string_to_array(v_token, '.');
+  v_parts[5] := repeat('0', 64);
+  assert (select status from private.read_fill_token(array_to_string(v_parts, '.'))) = 'invalid',
+    'token with a forged signature is accepted';
+
+  assert (select status from private.read_fill_token('not-a-token')) = 'invalid', 'garbage is accepted';
+  assert (select status from private.read_fill_token(null)) = 'invalid', 'a missing token is accepted';
+end;
+$$;
+
+-- Completing with an expired token, or as someone else, records nothing
+insert into auth.users (id) values ('00000000-0000-0000-0000-00000000000c');
+
+insert into public.fill_sessions (id, form_id, user_id, return_key) values
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', 'expiredsessionkey'),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'othersessionkey');
+
+create temporary table issued_tokens as
+select
+  private.sign_fill_token('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c',
+    now() - interval '1 minute', '00000000-0000-0000-0000-0000000000e1') as expired,
+  private.sign_fill_token('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b',
+    now() + interval '1 minute', '00000000-0000-0000-0000-0000000000e2') as someone_elses;
+grant select on issued_tokens to authenticated;
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000c';
+
+do $$
+declare
+  v_tokens record;
+begin
+  select * into v_tokens from issued_tokens;
+
+  assert (select status from public.complete_fill_from_token(v_tokens.expired, 'posterkey0123456789abcdef', 'expiredsessionkey')) = 'expired',
+    'an expired token completed a fill';
+  assert (select status from public.complete_fill_from_token(v_tokens.someone_elses, 'posterkey0123456789abcdef', 'othersessionkey')) = 'wrong_user',
+    'another user''s token completed a fill';
+  assert not exists (select 1 from public.form_fills where user_id = '00000000-0000-0000-0000-00000000000c'),
+    'a fill was recorded';
+end;
+$$;
+
+-- Only the database can sign tokens
+do $$
+begin
+  perform private.sign_fill_token('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c',
+    now() + interval '1 day', gen_random_uuid());
+  raise exception 'a signed-in user could sign their own token';
+exception when insufficient_privilege then
+  null;
+end;
+$$;
+
+reset role;
+
+-- A form that expires while someone is filling it reports 'closed' rather than failing
+insert into auth.users (id) values ('00000000-0000-0000-0000-00000000000d');
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000d';
+create temporary table expiring_session as
+select * from public.open_fill_session('00000000-0000-0000-0000-0000000000f1');
+reset role;
+
+update public.forms set expire_at = now() - interval '1 minute' where id = '00000000-0000-0000-0000-0000000000f1';
+grant select on expiring_session to authenticated;
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000d';
+do $$
+declare
+  v_session record := (select s from expiring_session s);
+begin
+  assert (select status from public.complete_fill_from_token(v_session.return_token, 'posterkey0123456789abcdef', v_session.return_key)) = 'closed',
+    'an expired form did not report closed';
+end;
+$$;
+reset role;
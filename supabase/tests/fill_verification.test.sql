@@ -0,0 +1,96 @@
+-- Completion codes: minimum length, the guess limit, and badges for verified fills
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-00000000000c');
+insert into public.forms (id, user_id, title, form_url) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Coded form', 'https://example.com/a');
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+
+do $$
+begin
+  insert into public.form_completion_codes (form_id, code) values ('00000000-0000-0000-0000-0000000000f1', 'abc1');
+  raise exception 'accepted a 4-character code';
+exception when check_violation then
+  null;
+end;
+$$;
+
+insert into public.form_completion_codes (form_id, code) values ('00000000-0000-0000-0000-0000000000f1', 'Sleep-2026');
+
+-- Filler b guesses five times and is locked out, even with the right code
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f1');
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 4);
+
+do $$
+declare
+  v_fill_id uuid := (select id from public.form_fills where user_id = '00000000-0000-0000-0000-00000000000b');
+  v_guess integer;
+begin
+  for v_guess in 1..5 loop
+    assert not public.verify_form_fill(v_fill_id, 'guess-' || v_guess), 'a wrong code verified the fill';
+  end loop;
+
+  begin
+    perform public.verify_form_fill(v_fill_id, 'sleep-2026');
+    raise exception 'verified after five wrong codes';
+  exception when raise_exception then
+    assert sqlerrm like 'Too many wrong codes%', sqlerrm;
+  end;
+
+  assert not (select verified from public.form_fills where id = v_fill_id), 'locked-out fill is verified';
+  assert not exists (select 1 from public.user_badges where user_id = '00000000-0000-0000-0000-00000000000b'),
+    'an unverified fill on a coded form earned a badge';
+end;
+$$;
+
+-- Filler c gets it right after a typo
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000c';
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f1');
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', 5);
+
+do $$
+declare
+  v_fill_id uuid := (select id from public.form_fills where user_id = '00000000-0000-0000-0000-00000000000c');
+begin
+  assert not public.verify_form_fill(v_fill_id, 'sleep-2025'), 'a wrong code verified the fill';
+  assert public.verify_form_fill(v_fill_id, ' SLEEP-2026 '), 'the right code was refused';
+  assert (select verified from public.form_fills where id = v_fill_id), 'fill is not verified';
+end;
+$$;
+
+reset role;
+
+do $$
+begin
+  assert exists (
+    select 1 from public.user_badges
+    where user_id = '00000000-0000-0000-0000-00000000000c' and badge_name = 'First Form Filled'
+  ), 'a verified fill did not earn a badge';
+end;
+$$;
+
+-- Fills on forms that don't verify earn badges as soon as they're in
+insert into public.forms (id, user_id, title, form_url) values
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000a', 'Open form', 'https://example.com/b');
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f2');
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000b', 3);
+reset role;
+
+do $$
+begin
+  assert exists (
+    select 1 from public.user_badges
+    where user_id = '00000000-0000-0000-0000-00000000000b' and badge_name = 'First Form Filled'
+  ), 'a fill on a form without verification did not earn a badge';
+end;
+$$;
@@ -0,0 +1,60 @@
+-- Duplicate detection matches the same form by ID or link, and near-identical titles
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b');
+insert into public.profiles (id, name) values
+  ('00000000-0000-0000-0000-00000000000a', 'Poster'),
+  ('00000000-0000-0000-0000-00000000000b', 'Other poster');
+insert into public.forms (id, user_id, title, form_url, provider, external_form_id, expire_at, deleted_at) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Commute habits',
+    'https://docs.google.com/forms/d/e/1FAIpQLSabc/viewform', 'google', '1FAIpQLSabc', null, null),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000a', 'Sleep and exams',
+    'https://forms.gle/Short123', 'google', null, null, null),
+  ('00000000-0000-0000-0000-0000000000f3', '00000000-0000-0000-0000-00000000000a', 'Student Sleep Survey',
+    'https://tally.so/r/abc', 'tally', 'abc', null, null),
+  ('00000000-0000-0000-0000-0000000000f4', '00000000-0000-0000-0000-00000000000a', 'Expired copy',
+    'https://tally.so/r/old', 'tally', 'old', now() - interval '1 day', null),
+  ('00000000-0000-0000-0000-0000000000f5', '00000000-0000-0000-0000-00000000000a', 'Deleted copy',
+    'https://tally.so/r/gone', 'tally', 'gone', null, now());
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+
+do $$
+declare
+  v_match record;
+begin
+  -- The same Google form, whatever title it's posted under
+  select * into strict v_match
+  from public.find_duplicate_forms('google', '1FAIpQLSabc', 'https://docs.google.com/forms/d/e/1FAIpQLSabc/viewform', 'Unrelated');
+  assert v_match.id = '00000000-0000-0000-0000-0000000000f1' and v_match.same_survey, 'same form ID not matched';
+
+  -- A short link carries no ID, so it's matched by its URL
+  select * into strict v_match
+  from public.find_duplicate_forms('google', null, 'https://forms.gle/Short123', 'Unrelated');
+  assert v_match.id = '00000000-0000-0000-0000-0000000000f2' and v_match.same_survey, 'short link not matched by URL';
+  assert not exists (
+    select 1 from public.find_duplicate_forms('google', null, 'https://forms.gle/Other456', 'Unrelated')
+  ), 'a different short link matched';
+
+  -- A near-identical title is only similar, not the same survey
+  select * into strict v_match
+  from public.find_duplicate_forms('tally', 'xyz', 'https://tally.so/r/xyz', 'Student Sleep Surveys');
+  assert v_match.id = '00000000-0000-0000-0000-0000000000f3' and not v_match.same_survey, 'similar title not matched';
+
+  -- The same ID on another provider is a different form
+  assert not exists (
+    select 1 from public.find_duplicate_forms('typeform', 'abc', 'https://form.typeform.com/to/abc', 'Unrelated')
+  ), 'a form on another provider matched';
+
+  -- Expired and deleted posts aren't duplicates
+  assert not exists (
+    select 1 from public.find_duplicate_forms('tally', 'old', 'https://tally.so/r/old', 'Expired copy')
+  ), 'an expired form matched';
+  assert not exists (
+    select 1 from public.find_duplicate_forms('tally', 'gone', 'https://tally.so/r/gone', 'Deleted copy')
+  ), 'a deleted form matched';
+end;
+$$;
+
+reset role;
@@ -0,0 +1,84 @@
+-- What fillers can and can't do to their own fills
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b');
+insert into public.forms (id, user_id, title, form_url) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Form A', 'https://example.com/a'),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000a', 'Form B', 'https://example.com/b');
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f1');
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 3);
+
+-- Rating and comment stay editable
+update public.form_fills set rating = 5, comment = 'Great survey'
+where form_id = '00000000-0000-0000-0000-0000000000f1';
+
+do $$
+begin
+  assert (select rating from public.form_fills where form_id = '00000000-0000-0000-0000-0000000000f1') = 5,
+    'filler could not change their rating';
+end;
+$$;
+
+-- Moving a fill to another form, or rewriting its session or timing, is refused
+do $$
+declare
+  v_change text;
+begin
+  foreach v_change in array array[
+    'form_id = ''00000000-0000-0000-0000-0000000000f2''',
+    'session_id = null',
+    'seconds_to_submit = 9999',
+    'created_at = now() - interval ''1 day'''
+  ] loop
+    begin
+      execute format('update public.form_fills set %s where form_id = %L', v_change, '00000000-0000-0000-0000-0000000000f1');
+      raise exception 'filler could set %', v_change;
+    exception when insufficient_privilege then
+      null;
+    end;
+  end loop;
+end;
+$$;
+
+-- Fills must follow a fill session, and the session and timing are the database's to set
+do $$
+begin
+  insert into public.form_fills (form_id, user_id, rating)
+  values ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000b', 4);
+  raise exception 'filled a form without opening it';
+exception when check_violation then
+  null;
+end;
+$$;
+
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f2');
+
+do $$
+begin
+  insert into public.form_fills (form_id, user_id, rating, seconds_to_submit)
+  values ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000b', 4, 600);
+  raise exception 'filler could set seconds_to_submit';
+exception when insufficient_privilege then
+  null;
+end;
+$$;
+
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000b', 4);
+
+do $$
+begin
+  assert (
+    select session_id is not null and seconds_to_submit is not null
+    from public.form_fills
+    where form_id = '00000000-0000-0000-0000-0000000000f2'
+  ), 'fill was not attached to its session';
+end;
+$$;
+
+reset role;
@@ -0,0 +1,59 @@
+-- Scheduled lifecycle jobs and the lifecycle rules they rely on
+insert into auth.users (id) values ('00000000-0000-0000-0000-00000000000a');
+insert into public.forms (id, user_id, title, form_url, deleted_at) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Deleted long ago', 'https://example.com/a',
+    now() - interval '8 days');
+
+-- The scheduled jobs can't be triggered through the API
+do $$
+declare
+  v_role text;
+  v_job text;
+begin
+  foreach v_role in array array['anon', 'authenticated'] loop
+    foreach v_job in array array['purge_deleted_forms', 'advance_form_lifecycle'] loop
+      execute format('set role %I', v_role);
+      begin
+        execute format('select public.%I()', v_job);
+        raise exception '% can run %', v_role, v_job;
+      exception when insufficient_privilege then
+        null;
+      end;
+      reset role;
+    end loop;
+  end loop;
+end;
+$$;
+
+set role service_role;
+select public.advance_form_lifecycle();
+reset role;
+
+do $$
+begin
+  assert not exists (select 1 from public.forms), 'the service role could not run the lifecycle job';
+end;
+$$;
+
+-- Extending an expired form puts it back live; an expiry still in the past doesn't
+insert into public.forms (id, user_id, title, form_url, expire_at) values
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-00000000000a', 'Extended', 'https://example.com/b',
+    now() - interval '1 day'),
+  ('00000000-0000-0000-0000-0000000000f3', '00000000-0000-0000-0000-00000000000a', 'Still over', 'https://example.com/c',
+    now() - interval '2 days');
+select public.advance_form_lifecycle();
+
+set role authenticated;
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+update public.forms set expire_at = now() + interval '7 days' where id = '00000000-0000-0000-0000-0000000000f2';
+update public.forms set expire_at = now() - interval '1 day' where id = '00000000-0000-0000-0000-0000000000f3';
+reset role;
+
+do $$
+begin
+  assert (select status from public.forms where id = '00000000-0000-0000-0000-0000000000f2') = 'live',
+    'extended form is still expired';
+  assert (select status from public.forms where id = '00000000-0000-0000-0000-0000000000f3') = 'expired',
+    'form with a past expiry was put back live';
+end;
+$$;
@@ -0,0 +1,57 @@
+// Applies every migration to an in-memory Postgres (PGlite) and runs each
+// supabase/tests/*.test.sql file against its own fresh copy. Tests are plain
+// SQL that raises an error (usually through `assert`) when something is wrong.
+//
+//   npm run test:db
+//   npm run test:db -- fill_return_links   # only files whose name contains this
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+
+const testsDir = path.dirname(fileURLToPath(import.meta.url));
+const migrationsDir = path.join(testsDir, '..', 'migrations');
+const filter = process.argv[2];
+
+const readSql = (dir, file) => readFile(path.join(dir, file), 'utf8');
+
+const migrations = (await readdir(migrationsDir)).filter(file => file.endsWith('.sql')).sort();
+const tests = (await readdir(testsDir))
+  .filter(file => file.endsWith('.test.sql') && (!filter || file.includes(filter)))
+  .sort();
+
+const stub = await readSql(testsDir, 'supabase_stub.sql');
+const migrationSql = await Promise.all(migrations.map(file => readSql(migrationsDir, file)));
+
+const freshDatabase = async () => {
+  const db = await PGlite.create({ extensions: { pg_trgm, pgcrypto } });
+  await db.exec(stub);
+  for (const [index, sql] of migrationSql.entries()) {
+    try {
+      await db.exec(sql);
+    } catch (error) {
+      throw new Error(`Migration ${migrations[index]} failed: ${error.message}`);
+    }
+  }
+  return db;
+};
+
+let failures = 0;
+
+for (const file of tests) {
+  const db = await freshDatabase();
+  try {
+    await db.exec(await readSql(testsDir, file));
+    console.log(`ok    ${file}`);
+  } catch (error) {
+    failures++;
+    console.log(`FAIL  ${file}\n      ${error.message}`);
+  } finally {
+    await db.close();
+  }
+}
+
+console.log(`\n${tests.length - failures} passed, ${failures} failed`);
+process.exit(failures > 0 ? 1 : 0);
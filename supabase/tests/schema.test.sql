@@ -0,0 +1,72 @@
+-- Smoke test: a fresh database gets the whole schema, the Realtime
+-- publication carries what the feed subscribes to, and the basic post,
+-- fill and browse flow works through RLS as the API roles.
+do $$
+begin
+  assert to_regclass('public.profiles') is not null, 'profiles table missing';
+  assert to_regclass('public.forms') is not null, 'forms table missing';
+  assert to_regclass('public.form_fills') is not null, 'form_fills table missing';
+  assert to_regclass('public.user_badges') is not null, 'user_badges table missing';
+end;
+$$;
+
+-- The feed's new-forms banner and live fill counts listen to these tables
+do $$
+begin
+  assert exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'forms'
+  ), 'forms is not published to Realtime';
+  assert exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'form_fills'
+  ), 'form_fills is not published to Realtime';
+end;
+$$;
+
+insert into auth.users (id) values
+  ('00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-00000000000b');
+insert into public.profiles (id, name) values
+  ('00000000-0000-0000-0000-00000000000a', 'Poster'),
+  ('00000000-0000-0000-0000-00000000000b', 'Filler');
+
+set role authenticated;
+
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+insert into public.forms (id, user_id, title, form_url, tags)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a',
+  'Sleep habits survey', 'https://docs.google.com/forms/d/e/sleep123/viewform', array['health']);
+
+set request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+select public.open_fill_session('00000000-0000-0000-0000-0000000000f1');
+insert into public.form_fills (form_id, user_id, rating)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 4);
+
+-- RLS: nobody can post in someone else's name
+do $$
+begin
+  insert into public.forms (user_id, title, form_url)
+  values ('00000000-0000-0000-0000-00000000000a', 'Not mine', 'https://example.com/survey');
+  raise exception 'posted a form as another user';
+exception when insufficient_privilege then
+  null;
+end;
+$$;
+
+reset role;
+set role anon;
+set request.jwt.claim.sub = '';
+
+do $$
+declare
+  v_page record;
+begin
+  select * into v_page from public.feed_page();
+  assert v_page.title = 'Sleep habits survey', 'feed does not show the posted form';
+  assert v_page.author_name = 'Poster', 'feed does not show the author';
+  assert v_page.fill_count = 1, format('expected 1 fill, got %s', v_page.fill_count);
+end;
+$$;
+
+reset role;
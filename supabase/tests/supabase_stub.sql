@@ -0,0 +1,32 @@
+-- The parts of a Supabase database the migrations rely on: the auth schema,
+-- the API roles and their default grants, the extensions schema and the
+-- Realtime publication. Loaded before the migrations by run.mjs.
+create schema if not exists extensions;
+create schema if not exists auth;
+
+create table auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text
+);
+
+-- PostgREST passes the caller's JWT claims as settings; tests set
+-- request.jwt.claim.sub to act as a user
+create or replace function auth.uid()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid;
+$$;
+
+create role anon nologin;
+create role authenticated nologin;
+create role service_role nologin bypassrls;
+
+grant usage on schema public, auth, extensions to anon, authenticated, service_role;
+grant select on auth.users to authenticated, service_role;
+alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public grant all on sequences to anon, authenticated, service_role;
+alter default privileges in schema public grant all on functions to anon, authenticated, service_role;
+
+create publication supabase_realtime;